@@ -0,0 +1,182 @@
+import { FHE_CONSTANTS } from './constants';
+import {
+    calculateCircuitDepth,
+    countWireConsumers,
+    groupOperationsIntoLevels,
+    placeBootstraps,
+    validateCircuit
+} from './circuit.utils';
+import { CircuitGate, CircuitOperation, FheCircuit, FheScheme } from './types';
+
+const errors = FHE_CONSTANTS.ERROR_MESSAGES;
+
+function circuit(gates: CircuitGate[], overrides: Partial<FheCircuit> = {}): FheCircuit {
+    return {
+        name: 'test',
+        scheme: FheScheme.BFV,
+        inputs: ['a', 'b', 'c', 'd'],
+        outputs: [gates[gates.length - 1].output],
+        gates,
+        ...overrides
+    };
+}
+
+describe('validateCircuit', () => {
+    it('returns gates in execution order', () => {
+        const ordered = validateCircuit(circuit([
+            { operation: 'add', inputs: ['x', 'c'], output: 'y' },
+            { operation: 'add', inputs: ['a', 'b'], output: 'x' }
+        ], { outputs: ['y'] }));
+
+        expect(ordered.map(gate => gate.output)).toEqual(['x', 'y']);
+    });
+
+    it('rejects operations that only resolve through the prototype', () => {
+        expect(() => validateCircuit(circuit([
+            { operation: 'constructor', inputs: ['a', 'b'], output: 'x' }
+        ]))).toThrow(errors.UNKNOWN_GATE_OPERATION);
+    });
+
+    it('rejects gates with the wrong number of inputs', () => {
+        expect(() => validateCircuit(circuit([
+            { operation: 'negate', inputs: ['a', 'b'], output: 'x' }
+        ]))).toThrow(errors.INVALID_GATE_ARITY);
+    });
+
+    it('rejects undefined wires', () => {
+        expect(() => validateCircuit(circuit([
+            { operation: 'add', inputs: ['a', 'missing'], output: 'x' }
+        ]))).toThrow(errors.UNDEFINED_WIRE);
+    });
+
+    it('rejects cycles', () => {
+        expect(() => validateCircuit(circuit([
+            { operation: 'add', inputs: ['a', 'y'], output: 'x' },
+            { operation: 'add', inputs: ['b', 'x'], output: 'y' }
+        ]))).toThrow(errors.CIRCUIT_CYCLE);
+    });
+
+    it('rejects comparisons outside TFHE', () => {
+        expect(() => validateCircuit(circuit([
+            { operation: 'eq', inputs: ['a', 'b'], output: 'x' }
+        ], { scheme: FheScheme.CKKS }))).toThrow(errors.UNSUPPORTED_GATE);
+    });
+
+    it('rejects scalars the scheme cannot encode', () => {
+        expect(() => validateCircuit(circuit([
+            { operation: 'multiplyScalar', inputs: ['a'], output: 'x', parameters: { constant: 1.5 } }
+        ]))).toThrow(errors.INVALID_SCALAR);
+    });
+
+    it('rejects wires driven twice', () => {
+        expect(() => validateCircuit(circuit([
+            { operation: 'add', inputs: ['a', 'b'], output: 'x' },
+            { operation: 'add', inputs: ['c', 'd'], output: 'x' }
+        ]))).toThrow(errors.DUPLICATE_WIRE);
+        expect(() => validateCircuit(circuit([
+            { operation: 'add', inputs: ['a', 'b'], output: 'c' }
+        ]))).toThrow(errors.DUPLICATE_WIRE);
+    });
+
+    it('rejects outputs no gate produces', () => {
+        expect(() => validateCircuit(circuit([
+            { operation: 'add', inputs: ['a', 'b'], output: 'x' }
+        ], { outputs: ['y'] }))).toThrow(errors.UNDEFINED_WIRE);
+    });
+
+    it('rejects circuits deeper than the supported depth', () => {
+        const gates = Array.from({ length: FHE_CONSTANTS.MAX_CIRCUIT_DEPTH + 1 }, (_, index) => ({
+            operation: 'multiply',
+            inputs: [index ? `m${index - 1}` : 'a', 'b'],
+            output: `m${index}`
+        }));
+
+        expect(() => validateCircuit(circuit(gates))).toThrow(errors.CIRCUIT_TOO_DEEP);
+    });
+});
+
+describe('groupOperationsIntoLevels', () => {
+    it('puts independent operations in the same level', () => {
+        const operations: CircuitOperation[] = [
+            { type: 'add', inputs: ['a', 'b'], output: 'x' },
+            { type: 'multiply', inputs: ['c', 'd'], output: 'y' },
+            { type: 'add', inputs: ['x', 'y'], output: 'z' },
+            { type: 'negate', inputs: ['a'], output: 'w' }
+        ];
+
+        const levels = groupOperationsIntoLevels(operations);
+
+        expect(levels.map(level => level.map(operation => operation.output))).toEqual([['x', 'y', 'w'], ['z']]);
+    });
+});
+
+describe('countWireConsumers', () => {
+    it('counts each operation reading a wire once', () => {
+        const consumers = countWireConsumers([
+            { type: 'multiply', inputs: ['a', 'a'], output: 'x' },
+            { type: 'add', inputs: ['a', 'x'], output: 'y' }
+        ]);
+
+        expect(Object.fromEntries(consumers)).toEqual({ a: 2, x: 1 });
+    });
+});
+
+describe('calculateCircuitDepth', () => {
+    it('counts a multi-input multiply as a balanced tree', () => {
+        const gates = [{ operation: 'multiply', inputs: ['a', 'b', 'c', 'd'], output: 'x' }];
+
+        expect(calculateCircuitDepth(['a', 'b', 'c', 'd'], gates, FheScheme.BFV)).toBe(2);
+    });
+
+    it('only counts scalar multiplies as a level under CKKS', () => {
+        const gates = [{ operation: 'multiplyScalar', inputs: ['a'], output: 'x', parameters: { constant: 2 } }];
+
+        expect(calculateCircuitDepth(['a'], gates, FheScheme.BFV)).toBe(0);
+        expect(calculateCircuitDepth(['a'], gates, FheScheme.CKKS)).toBe(1);
+    });
+});
+
+describe('placeBootstraps', () => {
+    it('refreshes intermediate products of a multi-input multiply', () => {
+        const definition = circuit(
+            [{ operation: 'multiply', inputs: ['a', 'b', 'c', 'd'], output: 'x' }],
+            { scheme: FheScheme.TFHE }
+        );
+        const { operations, bootstrappingPoints } = placeBootstraps(definition, validateCircuit(definition));
+        const multiplies = operations.filter(operation => operation.type === 'multiply');
+
+        expect(multiplies).toHaveLength(3);
+        expect(multiplies.every(operation => operation.inputs.length === 2)).toBe(true);
+        expect(bootstrappingPoints.length).toBeGreaterThan(0);
+        expect(operations[operations.length - 1].output).toBe('x');
+    });
+
+    it('leaves circuits within the noise budget untouched', () => {
+        const definition = circuit([{ operation: 'add', inputs: ['a', 'b'], output: 'x' }], { scheme: FheScheme.TFHE });
+        const { operations, bootstrappingPoints } = placeBootstraps(definition, validateCircuit(definition));
+
+        expect(bootstrappingPoints).toEqual([]);
+        expect(operations).toEqual([{ type: 'add', inputs: ['a', 'b'], output: 'x', parameters: undefined }]);
+    });
+
+    it('refreshes a wire once and feeds the refreshed wire to every later consumer', () => {
+        const definition = circuit([
+            { operation: 'multiply', inputs: ['a', 'b'], output: 'x' },
+            { operation: 'multiply', inputs: ['x', 'c'], output: 'y' },
+            { operation: 'multiply', inputs: ['x', 'd'], output: 'z' }
+        ], { scheme: FheScheme.TFHE, outputs: ['y', 'z'] });
+        const { operations, bootstrappingPoints } = placeBootstraps(definition, validateCircuit(definition));
+        const refreshedWires = bootstrappingPoints.filter(point => point.wire === 'x').map(point => point.refreshedWire);
+
+        expect(refreshedWires).toHaveLength(1);
+        for (const output of ['y', 'z']) {
+            expect(operations.find(operation => operation.output === output)!.inputs).toContain(refreshedWires[0]);
+        }
+    });
+
+    it('fails when the scheme cannot bootstrap an overflowing gate', () => {
+        const definition = circuit([{ operation: 'multiply', inputs: ['a', 'b', 'c', 'd'], output: 'x' }]);
+
+        expect(() => placeBootstraps(definition, validateCircuit(definition))).toThrow(errors.NOISE_OVERFLOW);
+    });
+});
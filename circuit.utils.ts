@@ -0,0 +1,348 @@
+import { FHE_CONSTANTS } from './constants';
+import { BootstrapPlacement, CircuitGate, CircuitOperation, FheCircuit, FheScheme } from './types';
+import { computeNoiseLevel, encodeScalar, estimateNoiseGrowth } from './utils';
+
+// Structural validation; returns the gates in a valid execution (topological) order
+export function validateCircuit(circuit: FheCircuit): CircuitGate[] {
+    const errors = FHE_CONSTANTS.ERROR_MESSAGES;
+    const inputs = new Set<string>();
+    const producers = new Map<string, number>();
+
+    for (const input of circuit.inputs) {
+        if (inputs.has(input)) {
+            throw new Error(`${errors.DUPLICATE_WIRE}: ${input}`);
+        }
+        inputs.add(input);
+    }
+
+    const gateArity: Record<string, { min: number; max: number }> = FHE_CONSTANTS.GATE_ARITY;
+
+    circuit.gates.forEach((gate, index) => {
+        // Own-property check so names like 'constructor' never resolve through the prototype
+        const arity = Object.prototype.hasOwnProperty.call(gateArity, gate.operation)
+            ? gateArity[gate.operation]
+            : undefined;
+        if (!arity) {
+            throw new Error(`${errors.UNKNOWN_GATE_OPERATION}: ${gate.operation}`);
+        }
+        if (gate.inputs.length < arity.min || gate.inputs.length > arity.max) {
+            throw new Error(`${errors.INVALID_GATE_ARITY}: ${gate.operation} -> ${gate.output}`);
+        }
+        if (!isGateSupported(gate.operation, circuit.scheme)) {
+            throw new Error(`${errors.UNSUPPORTED_GATE}: ${gate.operation} under ${circuit.scheme}`);
+        }
+        if (isScalarOperation(gate.operation)) {
+            // Encoding up front rejects constants the scheme cannot represent before anything runs
+            encodeScalar(gate.parameters?.constant, circuit.scheme);
+        }
+        if (inputs.has(gate.output) || producers.has(gate.output)) {
+            throw new Error(`${errors.DUPLICATE_WIRE}: ${gate.output}`);
+        }
+        producers.set(gate.output, index);
+    });
+
+    for (const gate of circuit.gates) {
+        for (const wire of gate.inputs) {
+            if (!inputs.has(wire) && !producers.has(wire)) {
+                throw new Error(`${errors.UNDEFINED_WIRE}: ${wire}`);
+            }
+        }
+    }
+
+    const outputs = new Set<string>();
+    for (const output of circuit.outputs) {
+        if (outputs.has(output)) {
+            throw new Error(`${errors.DUPLICATE_WIRE}: ${output}`);
+        }
+        if (!inputs.has(output) && !producers.has(output)) {
+            throw new Error(`${errors.UNDEFINED_WIRE}: ${output}`);
+        }
+        outputs.add(output);
+    }
+
+    const ordered = sortGatesTopologically(circuit.gates, producers);
+
+    const depth = calculateCircuitDepth(circuit.inputs, ordered, circuit.scheme);
+    if (depth > FHE_CONSTANTS.MAX_CIRCUIT_DEPTH) {
+        throw new Error(
+            `${errors.CIRCUIT_TOO_DEEP}: ${depth} > ${FHE_CONSTANTS.MAX_CIRCUIT_DEPTH}`
+        );
+    }
+
+    return ordered;
+}
+
+// Per-scheme gate capabilities
+export function isGateSupported(operation: string, scheme: FheScheme): boolean {
+    switch (operation) {
+        case 'rotate':
+            // Slot rotation needs SIMD packing
+            return FHE_CONSTANTS.SIMD_SLOT_COUNT[scheme] > 1;
+        case 'bootstrap':
+            return scheme in FHE_CONSTANTS.BOOTSTRAP_PARAMS;
+        default:
+            // Comparisons and select rely on TFHE programmable bootstrapping
+            return isComparisonOperation(operation) || operation === 'select'
+                ? scheme === FheScheme.TFHE
+                : true;
+    }
+}
+
+export function isComparisonOperation(operation: string): boolean {
+    return ['eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'min', 'max'].includes(operation);
+}
+
+// Operations whose output comes out of a bootstrap with fresh noise
+export function refreshesNoise(operation: string): boolean {
+    return operation === 'bootstrap' || operation === 'select' || isComparisonOperation(operation);
+}
+
+export function isScalarOperation(operation: string): boolean {
+    return operation === 'addScalar' || operation === 'multiplyScalar' || operation === 'subtractScalar';
+}
+
+// Multiplicative depth of gates that are already in topological order
+export function calculateCircuitDepth(
+    inputs: string[],
+    orderedGates: CircuitGate[],
+    scheme: FheScheme
+): number {
+    let maxDepth = 0;
+    const depths = new Map<string, number>();
+
+    for (const input of inputs) {
+        depths.set(input, 0);
+    }
+
+    for (const gate of orderedGates) {
+        const inputDepths = gate.inputs.map(wire => {
+            const depth = depths.get(wire);
+            if (depth === undefined) {
+                throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.UNDEFINED_WIRE}: ${wire}`);
+            }
+            return depth;
+        });
+        // Multi-input multiplies compile to a balanced tree of binary multiplies
+        const levels = gate.operation === 'multiply' ? Math.ceil(Math.log2(gate.inputs.length)) : 1;
+        const gateDepth = consumesLevel(gate.operation, scheme)
+            ? Math.max(...inputDepths) + levels
+            : Math.max(...inputDepths);
+        depths.set(gate.output, gateDepth);
+        maxDepth = Math.max(maxDepth, gateDepth);
+    }
+
+    return maxDepth;
+}
+
+// Tracks a noise budget per wire and inserts bootstrap gates only where a gate would overflow.
+// Refreshed wires replace the original for every later consumer, so each wire is bootstrapped at most once.
+export function placeBootstraps(
+    circuit: FheCircuit,
+    orderedGates: CircuitGate[]
+): {
+    operations: CircuitOperation[];
+    bootstrappingPoints: BootstrapPlacement[];
+    estimatedNoise: number;
+} {
+    const canBootstrap = isGateSupported('bootstrap', circuit.scheme);
+    const wireNoise = new Map<string, number>();
+    const wireDepth = new Map<string, number>();
+    const refreshed = new Map<string, string>();
+    const wireNames = new Set([...circuit.inputs, ...orderedGates.map(gate => gate.output)]);
+    const operations: CircuitOperation[] = [];
+    const bootstrappingPoints: BootstrapPlacement[] = [];
+
+    for (const input of circuit.inputs) {
+        wireNoise.set(input, FHE_CONSTANTS.BASE_NOISE);
+        wireDepth.set(input, 0);
+    }
+
+    const project = (operation: string, inputs: string[]) => {
+        const noise = estimateNoiseGrowth(operation, inputs.map(wire => wireNoise.get(wire)!));
+        const depth = refreshesNoise(operation)
+            ? 0
+            : Math.max(...inputs.map(wire => wireDepth.get(wire)!)) + (consumesLevel(operation, circuit.scheme) ? 1 : 0);
+        return { noise, depth, level: computeNoiseLevel(noise, depth, circuit.scheme) };
+    };
+
+    // Binary multiplies give placement an intermediate wire it can refresh between factors
+    const binaryGates = orderedGates.flatMap(gate => decomposeMultiply(gate, wireNames));
+
+    for (const gate of binaryGates) {
+        let inputs = gate.inputs.map(wire => refreshed.get(wire) || wire);
+        let projected = project(gate.operation, inputs);
+
+        // Greedily refresh the noisiest input until the gate output fits the budget
+        while (projected.level > FHE_CONSTANTS.MAX_NOISE_LEVEL && canBootstrap) {
+            const candidate = inputs
+                .filter(wire => wireNoise.get(wire)! > FHE_CONSTANTS.BASE_NOISE)
+                .sort((a, b) => wireNoise.get(b)! - wireNoise.get(a)!)[0];
+            if (!candidate) {
+                break;
+            }
+
+            let refreshedWire = `${candidate}#bootstrap`;
+            while (wireNames.has(refreshedWire)) {
+                refreshedWire = `${refreshedWire}'`;
+            }
+            wireNames.add(refreshedWire);
+
+            bootstrappingPoints.push({
+                gateIndex: operations.length,
+                wire: candidate,
+                refreshedWire,
+                beforeGate: gate.output,
+                wireNoise: wireNoise.get(candidate)!,
+                projectedNoise: projected.level,
+                reason: `${gate.operation} -> ${gate.output} would reach noise ${projected.level.toFixed(2)}, `
+                    + `above ${FHE_CONSTANTS.MAX_NOISE_LEVEL}; ${candidate} is its noisiest input`
+            });
+            operations.push({ type: 'bootstrap', inputs: [candidate], output: refreshedWire });
+
+            // Only original wires can be candidates: refreshed wires sit at base noise
+            wireNoise.set(refreshedWire, FHE_CONSTANTS.BASE_NOISE);
+            wireDepth.set(refreshedWire, 0);
+            refreshed.set(candidate, refreshedWire);
+            inputs = inputs.map(wire => wire === candidate ? refreshedWire : wire);
+            projected = project(gate.operation, inputs);
+        }
+
+        if (projected.level > FHE_CONSTANTS.MAX_NOISE_LEVEL) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.NOISE_OVERFLOW}: ${gate.operation} -> ${gate.output} under ${circuit.scheme}`
+            );
+        }
+
+        operations.push({
+            type: gate.operation,
+            inputs,
+            output: gate.output,
+            parameters: gate.parameters
+        });
+        wireNoise.set(gate.output, projected.noise);
+        wireDepth.set(gate.output, projected.depth);
+    }
+
+    const estimatedNoise = Math.max(...circuit.outputs.map(output =>
+        computeNoiseLevel(wireNoise.get(output)!, wireDepth.get(output)!, circuit.scheme)
+    ));
+
+    return { operations, bootstrappingPoints, estimatedNoise };
+}
+
+// Groups operations into dependency levels; operations within a level are independent
+export function groupOperationsIntoLevels(operations: CircuitOperation[]): CircuitOperation[][] {
+    const wireLevels = new Map<string, number>();
+    const levels: CircuitOperation[][] = [];
+
+    for (const operation of operations) {
+        // Circuit inputs are not produced by any operation and sit below level 0
+        const level = operation.inputs.reduce(
+            (max, wire) => Math.max(max, (wireLevels.get(wire) ?? -1) + 1),
+            0
+        );
+        wireLevels.set(operation.output, level);
+
+        if (!levels[level]) {
+            levels[level] = [];
+        }
+        levels[level].push(operation);
+    }
+
+    return levels;
+}
+
+// Number of operations reading each wire, used to release wires after their last consumer
+export function countWireConsumers(operations: CircuitOperation[]): Map<string, number> {
+    const consumers = new Map<string, number>();
+
+    for (const operation of operations) {
+        for (const wire of new Set(operation.inputs)) {
+            consumers.set(wire, (consumers.get(wire) || 0) + 1);
+        }
+    }
+
+    return consumers;
+}
+
+// Kahn's algorithm, keeping declaration order among gates that are ready together
+function sortGatesTopologically(
+    gates: CircuitGate[],
+    producers: Map<string, number>
+): CircuitGate[] {
+    const pending = gates.map(() => 0);
+    const dependents: number[][] = gates.map(() => []);
+
+    gates.forEach((gate, index) => {
+        const dependencies = new Set(
+            gate.inputs
+                .filter(wire => producers.has(wire))
+                .map(wire => producers.get(wire)!)
+        );
+        for (const dependency of dependencies) {
+            dependents[dependency].push(index);
+        }
+        pending[index] = dependencies.size;
+    });
+
+    const ready = gates.map((_, index) => index).filter(index => pending[index] === 0);
+    const ordered: CircuitGate[] = [];
+
+    while (ready.length > 0) {
+        const index = ready.shift()!;
+        ordered.push(gates[index]);
+
+        for (const dependent of dependents[index]) {
+            pending[dependent]--;
+            if (pending[dependent] === 0) {
+                ready.push(dependent);
+            }
+        }
+    }
+
+    if (ordered.length < gates.length) {
+        const blocked = gates.filter((_, index) => pending[index] > 0).map(gate => gate.output);
+        throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.CIRCUIT_CYCLE}: ${blocked.join(', ')}`);
+    }
+
+    return ordered;
+}
+
+// Ciphertext multiplications consume one level; a plaintext scalar only does under CKKS,
+// where the encoded scalar carries a scale that has to be rescaled away
+function consumesLevel(operation: string, scheme: FheScheme): boolean {
+    return operation === 'multiply' || (operation === 'multiplyScalar' && scheme === FheScheme.CKKS);
+}
+
+// Splits an n-input multiply into a balanced tree of two-input multiplies ending in the original output
+function decomposeMultiply(gate: CircuitGate, wireNames: Set<string>): CircuitGate[] {
+    if (gate.operation !== 'multiply' || gate.inputs.length <= 2) {
+        return [gate];
+    }
+
+    const gates: CircuitGate[] = [];
+    let layer = gate.inputs;
+
+    while (layer.length > 2) {
+        const next: string[] = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            if (i + 1 === layer.length) {
+                next.push(layer[i]);
+                continue;
+            }
+
+            let output = `${gate.output}#multiply${gates.length}`;
+            while (wireNames.has(output)) {
+                output = `${output}'`;
+            }
+            wireNames.add(output);
+
+            gates.push({ operation: 'multiply', inputs: [layer[i], layer[i + 1]], output });
+            next.push(output);
+        }
+        layer = next;
+    }
+
+    gates.push({ ...gate, inputs: layer });
+    return gates;
+}
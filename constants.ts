@@ -22,6 +22,8 @@ export const FHE_CONSTANTS = {
         MULTIPLY: 2.5,
         ROTATE: 1.2,
         NEGATE: 1.05,
+        KEY_SWITCH: 1.3,
+        SCALAR_MULTIPLY: 1.5,
         BOOTSTRAP: 0.1
     },
 
@@ -94,8 +96,19 @@ export const FHE_CONSTANTS = {
         DECRYPT: 250000,
         HOMOMORPHIC_OP: 500000,
         BOOTSTRAP: 1000000,
-        STORE_ENCRYPTED: 200000
+        STORE_ENCRYPTED: 200000 // fixed overhead, payload cost is added per write
     },
+    GAS_ESTIMATE_MARGIN_PERCENT: 20,
+    STORE_GAS_PER_WORD: 22100, // cold SSTORE of a fresh slot
+    CALLDATA_GAS_PER_BYTE: 16,
+
+    // On-chain write retries
+    STORE_TX_TIMEOUT: 120000, // 2 minutes per attempt
+    STORE_TX_MAX_ATTEMPTS: 3,
+    STORE_FEE_BUMP_PERCENT: 20, // replacement transactions need at least +10%
+
+    // Vault writes retried when a concurrent write claims the same version
+    VAULT_WRITE_MAX_ATTEMPTS: 5,
 
     // Batch processing
     MAX_BATCH_SIZE: 50,
@@ -104,6 +117,13 @@ export const FHE_CONSTANTS = {
     // Cache settings
     KEY_CACHE_TTL: 3600000, // 1 hour
     BOOTSTRAP_KEY_CACHE_TTL: 7200000, // 2 hours
+    KEY_CACHE_MAX_ENTRIES: 1000,
+    KEY_CACHE_MAX_BYTES: 64 * 1024 * 1024, // 64MB
+    BOOTSTRAP_KEY_CACHE_MAX_ENTRIES: 200,
+    BOOTSTRAP_KEY_CACHE_MAX_BYTES: 256 * 1024 * 1024, // 256MB
+
+    // Key rotation
+    KEY_ROTATION_INTERVAL: 90 * 24 * 3600000, // 90 days
 
     // Storage ABI
     STORAGE_ABI: [
@@ -190,7 +210,55 @@ export const FHE_CONSTANTS = {
         INVALID_CIPHERTEXT: 'Invalid ciphertext format',
         KEY_NOT_FOUND: 'FHE keys not found for user',
         CIRCUIT_TOO_DEEP: 'Circuit depth exceeds maximum',
-        BATCH_SIZE_EXCEEDED: 'Batch size exceeds maximum limit'
+        BATCH_SIZE_EXCEEDED: 'Batch size exceeds maximum limit',
+        BATCH_TIMEOUT: 'Batch operation exceeded timeout',
+        UNKNOWN_GATE_OPERATION: 'Unknown circuit gate operation',
+        INVALID_GATE_ARITY: 'Circuit gate has an invalid number of inputs',
+        UNDEFINED_WIRE: 'Circuit references an undefined wire',
+        DUPLICATE_WIRE: 'Circuit wire is defined more than once',
+        CIRCUIT_CYCLE: 'Circuit contains a cycle',
+        UNSUPPORTED_GATE: 'Gate operation not supported by scheme',
+        SCHEME_MISMATCH: 'Ciphertext parameters do not match',
+        UNSUPPORTED_KEY_TYPE: 'Key type not supported by scheme',
+        KEYS_ALREADY_EXIST: 'FHE keys already exist for user',
+        KEY_SWITCHING_KEY_NOT_FOUND: 'No key-switching key found for target key',
+        KEY_MISMATCH: 'Ciphertext was encrypted under a different key',
+        INTEGRITY_KEY_NOT_CONFIGURED: 'FHE integrity key is not configured',
+        FIELD_NOT_FOUND: 'Encrypted field not found on chain',
+        STORAGE_CONTRACT_NOT_CONFIGURED: 'No FHE storage contract configured for chain',
+        INVALID_SCALAR: 'Scalar operand cannot be encoded for scheme',
+        STORE_GAS_LIMIT_EXCEEDED: 'Estimated gas for encrypted field storage exceeds limit',
+        STORE_GAS_ESTIMATION_FAILED: 'Failed to estimate gas for encrypted field storage',
+        STORE_SUBMISSION_FAILED: 'Failed to submit encrypted field storage transaction',
+        STORE_REVERTED: 'Encrypted field storage transaction reverted',
+        STORE_TIMEOUT: 'Encrypted field storage transaction was not mined',
+        KEY_SET_MISMATCH: 'Stored FHE keys do not match requested parameters',
+        INTEGRITY_TAG_MISSING: 'Ciphertext metadata carries no integrity tag',
+        VAULT_VERSION_CONFLICT: 'Concurrent writes kept claiming the next vault version',
+        UNTAGGED_METADATA_CUTOFF_NOT_CONFIGURED: 'FHE untagged metadata cut-off is not configured',
+        PACKED_SLOT_MISSING: 'Packed ciphertext metadata names no slot to decrypt'
+    },
+
+    // Supported circuit gate operations and their input counts
+    GATE_ARITY: {
+        add: { min: 2, max: Infinity },
+        multiply: { min: 2, max: Infinity },
+        subtract: { min: 2, max: 2 },
+        negate: { min: 1, max: 1 },
+        rotate: { min: 1, max: 1 },
+        bootstrap: { min: 1, max: 1 },
+        addScalar: { min: 1, max: 1 },
+        multiplyScalar: { min: 1, max: 1 },
+        subtractScalar: { min: 1, max: 1 },
+        eq: { min: 2, max: 2 },
+        ne: { min: 2, max: 2 },
+        lt: { min: 2, max: 2 },
+        lte: { min: 2, max: 2 },
+        gt: { min: 2, max: 2 },
+        gte: { min: 2, max: 2 },
+        min: { min: 2, max: 2 },
+        max: { min: 2, max: 2 },
+        select: { min: 3, max: 3 }
     },
 
     // Polynomial parameters
@@ -254,6 +322,23 @@ export const FHE_CONSTANTS = {
         }
     },
 
+    // Binary ciphertext envelope
+    CIPHERTEXT_ENVELOPE: {
+        MAGIC: 0x46484543, // 'FHEC'
+        VERSION: 1,
+        HEADER_SIZE: 56
+    },
+
+    // Ciphertext compression
+    COMPRESSION_THRESHOLD: 256, // bytes
+    COMPRESSION_LEVEL: 6,
+    MAX_DECOMPRESSED_CIPHERTEXT_SIZE: 16 * 1024 * 1024, // 16MB
+
+    // Metrics collection
+    METRICS_WINDOW_SIZE: 1000,
+    METRICS_MIN_SAMPLES: 20,
+    METRICS_ALERT_INTERVAL: 60000, // 1 minute
+
     // Performance benchmarks (operations per second)
     PERFORMANCE_TARGETS: {
         ENCRYPT: 1000,
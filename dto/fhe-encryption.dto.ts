@@ -1,6 +1,7 @@
 import { IsString, IsEnum, IsOptional, IsBoolean, IsNumber, ValidateNested, IsObject } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ApiProperty, ApiPropertyOptional } from '@nestjs/swagger';
+import { ChainNames } from 'modules/blockchain/constants';
 import { FheScheme, SecurityLevel } from '../types';
 
 export class EncryptFieldDto {
@@ -33,6 +34,25 @@ export class EncryptFieldDto {
     @IsOptional()
     @IsBoolean()
     storeOnChain?: boolean;
+
+    @ApiPropertyOptional({
+        enum: ChainNames,
+        isArray: true,
+        description: 'Chain or chains to store the encrypted field on (defaults to Cypher)'
+    })
+    @IsOptional()
+    @IsEnum(ChainNames, { each: true })
+    chain?: ChainNames | ChainNames[];
+
+    @ApiPropertyOptional({ description: 'Compress the ciphertext when it exceeds the size threshold' })
+    @IsOptional()
+    @IsBoolean()
+    compressionEnabled?: boolean;
+
+    @ApiPropertyOptional({ description: 'Persist the ciphertext as a new version in the field vault' })
+    @IsOptional()
+    @IsBoolean()
+    storeInVault?: boolean;
 }
 
 export class DecryptFieldDto {
@@ -53,6 +73,11 @@ export class DecryptFieldDto {
         bootstrappable: boolean;
         timestamp: number;
         version: string;
+        slot?: number;
+        packedSlots?: number;
+        storageFieldName?: string;
+        compressionRatio?: number;
+        integrityTag?: string;
     };
 
     @ApiProperty({ description: 'Original data type' })
@@ -60,13 +85,47 @@ export class DecryptFieldDto {
     originalDataType: string;
 }
 
+export class VaultFieldReferenceDto {
+    @ApiProperty({ description: 'Name of the vault field to decrypt' })
+    @IsString()
+    fieldName: string;
+
+    @ApiProperty({ description: 'Original data type' })
+    @IsString()
+    originalDataType: string;
+
+    @ApiPropertyOptional({ description: 'Field version (defaults to the latest)' })
+    @IsOptional()
+    @IsNumber()
+    version?: number;
+}
+
+export class UpdateVaultFieldDto {
+    @ApiProperty({ description: 'Name of the vault field to update' })
+    @IsString()
+    fieldName: string;
+
+    @ApiProperty({ description: 'New value to encrypt' })
+    value: any;
+
+    @ApiProperty({ description: 'Data type of the value' })
+    @IsString()
+    dataType: string;
+}
+
 export class HomomorphicOperationDto {
     @ApiProperty({ 
-        enum: ['add', 'multiply', 'subtract', 'negate', 'rotate', 'bootstrap'],
-        description: 'Type of homomorphic operation' 
+        enum: [
+            'add', 'multiply', 'subtract', 'negate', 'rotate', 'bootstrap',
+            'addScalar', 'multiplyScalar', 'subtractScalar',
+            'eq', 'ne', 'lt', 'lte', 'gt', 'gte', 'min', 'max', 'select'
+        ],
+        description: 'Type of homomorphic operation (comparisons and select require TFHE)' 
     })
     @IsString()
-    type: 'add' | 'multiply' | 'subtract' | 'negate' | 'rotate' | 'bootstrap';
+    type: 'add' | 'multiply' | 'subtract' | 'negate' | 'rotate' | 'bootstrap'
+        | 'addScalar' | 'multiplyScalar' | 'subtractScalar'
+        | 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte' | 'min' | 'max' | 'select';
 
     @ApiProperty({ type: [String], description: 'Encrypted inputs' })
     @IsString({ each: true })
@@ -76,6 +135,11 @@ export class HomomorphicOperationDto {
     @IsEnum(FheScheme)
     scheme: FheScheme;
 
+    @ApiPropertyOptional({ enum: SecurityLevel, description: 'Security level of the key set to evaluate with' })
+    @IsOptional()
+    @IsEnum(SecurityLevel)
+    securityLevel?: SecurityLevel;
+
     @ApiPropertyOptional({ description: 'Automatically bootstrap if noise exceeds threshold' })
     @IsOptional()
     @IsBoolean()
@@ -85,6 +149,11 @@ export class HomomorphicOperationDto {
     @IsOptional()
     @IsNumber()
     rotationAmount?: number;
+
+    @ApiPropertyOptional({ description: 'Plaintext operand for addScalar, multiplyScalar and subtractScalar' })
+    @IsOptional()
+    @IsNumber()
+    scalar?: number;
 }
 
 export class BatchEncryptionDto {
@@ -133,6 +202,15 @@ export class CreateCircuitDto {
     @IsString()
     name: string;
 
+    @ApiProperty({ enum: FheScheme, description: 'FHE scheme the circuit evaluates under' })
+    @IsEnum(FheScheme)
+    scheme: FheScheme;
+
+    @ApiPropertyOptional({ enum: SecurityLevel, description: 'Parameter set security level' })
+    @IsOptional()
+    @IsEnum(SecurityLevel)
+    securityLevel?: SecurityLevel;
+
     @ApiProperty({ type: [String], description: 'Input wire names' })
     @IsString({ each: true })
     inputs: string[];
@@ -203,4 +281,9 @@ export class ReencryptionDto {
     @ApiProperty({ enum: FheScheme, description: 'FHE scheme' })
     @IsEnum(FheScheme)
     scheme: FheScheme;
+
+    @ApiPropertyOptional({ enum: SecurityLevel, description: 'Security level of the key set' })
+    @IsOptional()
+    @IsEnum(SecurityLevel)
+    securityLevel?: SecurityLevel;
 }
\ No newline at end of file
@@ -0,0 +1,39 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { UserRepository } from 'modules/database/repository/user.repository';
+import { FheAuditLog, FheAuditLogQuery } from './types';
+
+@Injectable()
+export class FheAuditService {
+    private readonly logger = new Logger(FheAuditService.name);
+
+    constructor(
+        private readonly userRepository: UserRepository,
+    ) {}
+
+    public async record(entry: Omit<FheAuditLog, 'operationId' | 'timestamp'>): Promise<FheAuditLog> {
+        const record: FheAuditLog = {
+            operationId: ethers.utils.hexlify(ethers.utils.randomBytes(16)),
+            timestamp: Date.now(),
+            ...entry
+        };
+
+        // Audit records are append-only; a failed write is logged but never masks the operation result
+        try {
+            await this.userRepository.appendFheAuditLog(record);
+        } catch (error) {
+            this.logger.error(`Failed to write audit record ${record.operationId}`, error);
+        }
+
+        return record;
+    }
+
+    public async query(filter: FheAuditLogQuery): Promise<FheAuditLog[]> {
+        if (filter.from !== undefined && filter.to !== undefined && filter.from > filter.to) {
+            throw new Error('Audit query time range is inverted');
+        }
+
+        const records = await this.userRepository.queryFheAuditLogs(filter);
+        return records.sort((a, b) => a.timestamp - b.timestamp);
+    }
+}
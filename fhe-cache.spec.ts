@@ -0,0 +1,90 @@
+import { FheCache } from './fhe-cache';
+
+function createCache(options: { ttl?: number; maxEntries?: number; maxBytes?: number } = {}) {
+    const evicted: string[] = [];
+    const cache = new FheCache<string>({
+        ttl: 1000,
+        maxEntries: 10,
+        maxBytes: 100,
+        sizeOf: value => value.length,
+        onEvict: value => evicted.push(value),
+        ...options
+    });
+    return { cache, evicted };
+}
+
+describe('FheCache', () => {
+    let now: number;
+
+    beforeEach(() => {
+        now = 0;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('expires entries once their TTL has passed', () => {
+        const { cache, evicted } = createCache();
+        cache.set('a', 'alpha');
+
+        now = 999;
+        expect(cache.get('a')).toBe('alpha');
+        now = 1000;
+        expect(cache.get('a')).toBeUndefined();
+
+        expect(evicted).toEqual(['alpha']);
+        expect(cache.getStatistics()).toMatchObject({ hits: 1, misses: 1, expirations: 1, entries: 0, bytes: 0 });
+    });
+
+    it('evicts the least recently used entry when over the entry budget', () => {
+        const { cache, evicted } = createCache({ maxEntries: 2 });
+        cache.set('a', 'alpha');
+        cache.set('b', 'beta');
+        cache.get('a');
+
+        cache.set('c', 'gamma');
+
+        expect(evicted).toEqual(['beta']);
+        expect(cache.get('a')).toBe('alpha');
+        expect(cache.get('b')).toBeUndefined();
+        expect(cache.getStatistics()).toMatchObject({ evictions: 1, entries: 2 });
+    });
+
+    it('evicts until the byte budget is met', () => {
+        const { cache, evicted } = createCache({ maxBytes: 10 });
+        cache.set('a', 'aaaa');
+        cache.set('b', 'bbbb');
+
+        cache.set('c', 'cccccccc');
+
+        expect(evicted).toEqual(['aaaa', 'bbbb']);
+        expect(cache.getStatistics()).toMatchObject({ entries: 1, bytes: 8, maxBytes: 10 });
+    });
+
+    it('hands back values that can never fit instead of storing them', () => {
+        const { cache, evicted } = createCache({ maxBytes: 4 });
+        cache.set('a', 'aaa');
+
+        cache.set('b', 'bbbbb');
+
+        expect(evicted).toEqual(['bbbbb']);
+        expect(cache.get('a')).toBe('aaa');
+        expect(cache.get('b')).toBeUndefined();
+    });
+
+    it('releases replaced, deleted and cleared values', () => {
+        const { cache, evicted } = createCache();
+        cache.set('a', 'alpha');
+        cache.set('a', 'alpha2');
+        cache.set('b', 'beta');
+        cache.set('c', 'gamma');
+
+        cache.delete('b');
+        cache.clear();
+
+        expect(evicted).toEqual(['alpha', 'beta', 'alpha2', 'gamma']);
+        expect(cache.getStatistics()).toMatchObject({ evictions: 0, entries: 0, bytes: 0 });
+    });
+});
@@ -0,0 +1,108 @@
+import { FheCacheStatistics } from './types';
+
+interface CacheEntry<V> {
+    value: V;
+    bytes: number;
+    expiresAt: number;
+}
+
+// TTL-bounded LRU cache with an entry and byte budget. The cache owns stored values:
+// onEvict runs whenever a value leaves the cache so it can scrub sensitive material.
+export class FheCache<V> {
+    private readonly entries = new Map<string, CacheEntry<V>>();
+    private totalBytes = 0;
+    private hits = 0;
+    private misses = 0;
+    private evictions = 0;
+    private expirations = 0;
+
+    constructor(
+        private readonly options: {
+            ttl: number;
+            maxEntries: number;
+            maxBytes: number;
+            sizeOf: (value: V) => number;
+            onEvict?: (value: V) => void;
+        }
+    ) {}
+
+    public get(key: string): V | undefined {
+        const entry = this.entries.get(key);
+        if (!entry) {
+            this.misses++;
+            return undefined;
+        }
+
+        if (entry.expiresAt <= Date.now()) {
+            this.remove(key, entry);
+            this.expirations++;
+            this.misses++;
+            return undefined;
+        }
+
+        // Map keeps insertion order, so re-inserting marks the entry most recently used
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.hits++;
+
+        return entry.value;
+    }
+
+    public set(key: string, value: V): void {
+        const existing = this.entries.get(key);
+        if (existing) {
+            this.remove(key, existing);
+        }
+
+        const bytes = this.options.sizeOf(value);
+        if (bytes > this.options.maxBytes) {
+            // Too large to ever fit; the value is still handed to onEvict since the cache took ownership
+            this.options.onEvict?.(value);
+            this.evictions++;
+            return;
+        }
+
+        this.entries.set(key, { value, bytes, expiresAt: Date.now() + this.options.ttl });
+        this.totalBytes += bytes;
+
+        // Evict least recently used entries until back within budget
+        for (const [oldestKey, oldest] of this.entries) {
+            if (this.entries.size <= this.options.maxEntries && this.totalBytes <= this.options.maxBytes) {
+                break;
+            }
+            this.remove(oldestKey, oldest);
+            this.evictions++;
+        }
+    }
+
+    public delete(key: string): void {
+        const entry = this.entries.get(key);
+        if (entry) {
+            this.remove(key, entry);
+        }
+    }
+
+    public clear(): void {
+        for (const [key, entry] of this.entries) {
+            this.remove(key, entry);
+        }
+    }
+
+    public getStatistics(): FheCacheStatistics {
+        return {
+            hits: this.hits,
+            misses: this.misses,
+            evictions: this.evictions,
+            expirations: this.expirations,
+            entries: this.entries.size,
+            bytes: this.totalBytes,
+            maxBytes: this.options.maxBytes
+        };
+    }
+
+    private remove(key: string, entry: CacheEntry<V>): void {
+        this.entries.delete(key);
+        this.totalBytes -= entry.bytes;
+        this.options.onEvict?.(entry.value);
+    }
+}
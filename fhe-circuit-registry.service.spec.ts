@@ -0,0 +1,94 @@
+import { UserRepository } from 'modules/database/repository/user.repository';
+import { FheCircuitRegistryService } from './fhe-circuit-registry.service';
+import { CircuitExecutionPlan, FheCircuit, FheScheme, StoredFheCircuit } from './types';
+
+const OWNER = '0x00000000000000000000000000000000000A11CE';
+
+type RepositoryFake = jest.Mocked<Pick<UserRepository,
+    | 'getFheCircuit'
+    | 'getFheCircuits'
+    | 'storeFheCircuit'
+    | 'deleteFheCircuit'
+>>;
+
+function circuit(name: string, scheme = FheScheme.TFHE): FheCircuit {
+    return {
+        name,
+        scheme,
+        inputs: ['a', 'b'],
+        outputs: ['x'],
+        gates: [{ operation: 'add', inputs: ['a', 'b'], output: 'x' }]
+    };
+}
+
+const plan: CircuitExecutionPlan = {
+    operations: [{ type: 'add', inputs: ['a', 'b'], output: 'x' }],
+    inputCount: 2,
+    outputCount: 1,
+    depth: 0,
+    estimatedNoiseGrowth: 1,
+    bootstrappingPoints: []
+};
+
+describe('FheCircuitRegistryService', () => {
+    let records: StoredFheCircuit[];
+    let userRepository: RepositoryFake;
+    let registry: FheCircuitRegistryService;
+
+    beforeEach(() => {
+        records = [];
+        userRepository = {
+            getFheCircuit: jest.fn(async (circuitId: string) => records.find(stored => stored.circuitId === circuitId) || null),
+            getFheCircuits: jest.fn(async (ownerAddress: string) => records.filter(stored => stored.ownerAddress === ownerAddress)),
+            storeFheCircuit: jest.fn(async (record: StoredFheCircuit) => {
+                records.push(record);
+            }),
+            deleteFheCircuit: jest.fn(async (circuitId: string) => {
+                records = records.filter(stored => stored.circuitId !== circuitId);
+            })
+        };
+        // The fake implements only what the registry calls
+        registry = new FheCircuitRegistryService(userRepository as unknown as UserRepository);
+    });
+
+    it('versions circuits registered again under the same name', async () => {
+        await registry.register('id-1', OWNER, circuit('sum'), plan);
+        const second = await registry.register('id-2', OWNER, circuit('sum'), plan);
+        const other = await registry.register('id-3', OWNER, circuit('other'), plan);
+
+        expect(second.version).toBe(2);
+        expect(other.version).toBe(1);
+        expect((await registry.list(OWNER)).map(stored => stored.circuitId)).toEqual(['id-1', 'id-2', 'id-3']);
+    });
+
+    it('never reuses a circuit ID', async () => {
+        await registry.register('id-1', OWNER, circuit('sum'), plan);
+
+        await expect(registry.register('id-1', OWNER, circuit('other'), plan)).rejects.toThrow('already exists');
+        expect(userRepository.storeFheCircuit).toHaveBeenCalledTimes(1);
+    });
+
+    it('only hands circuits to their owner', async () => {
+        await registry.register('id-1', OWNER, circuit('sum'), plan);
+
+        await expect(registry.get('id-1', OWNER.toLowerCase())).resolves.toMatchObject({ circuitId: 'id-1' });
+        await expect(registry.get('id-1', '0x0000000000000000000000000000000000000b0b')).rejects.toThrow(
+            'does not belong to this user'
+        );
+        await expect(registry.delete('id-1', '0x0000000000000000000000000000000000000b0b')).rejects.toThrow(
+            'does not belong to this user'
+        );
+        expect(userRepository.deleteFheCircuit).not.toHaveBeenCalled();
+    });
+
+    it('detects definitions modified in storage', async () => {
+        await registry.register('id-1', OWNER, circuit('sum'), plan);
+        records[0].circuit.gates[0].operation = 'multiply';
+
+        await expect(registry.get('id-1', OWNER)).rejects.toThrow('definition has been modified');
+    });
+
+    it('reports unknown circuits', async () => {
+        await expect(registry.get('missing', OWNER)).rejects.toThrow('Circuit missing not found');
+    });
+});
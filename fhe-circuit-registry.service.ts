@@ -0,0 +1,89 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+import { UserRepository } from 'modules/database/repository/user.repository';
+import { CircuitExecutionPlan, FheCircuit, StoredFheCircuit } from './types';
+
+@Injectable()
+export class FheCircuitRegistryService {
+    private readonly logger = new Logger(FheCircuitRegistryService.name);
+
+    constructor(
+        private readonly userRepository: UserRepository,
+    ) {}
+
+    public async register(
+        circuitId: string,
+        ownerAddress: string,
+        circuit: FheCircuit,
+        executionPlan: CircuitExecutionPlan
+    ): Promise<StoredFheCircuit> {
+        // Circuit IDs are immutable: an ID always points at the gates it was created with
+        const existing = await this.userRepository.getFheCircuit(circuitId);
+        if (existing) {
+            throw new Error(`Circuit ${circuitId} already exists`);
+        }
+
+        // Re-registering a circuit name creates a new version under a new ID
+        const previousVersions = (await this.userRepository.getFheCircuits(ownerAddress))
+            .filter(stored => stored.circuit.name === circuit.name);
+        const version = previousVersions.reduce((max, stored) => Math.max(max, stored.version), 0) + 1;
+
+        const record: StoredFheCircuit = {
+            circuitId,
+            ownerAddress,
+            version,
+            definitionHash: this.hashDefinition(circuit, executionPlan),
+            circuit,
+            executionPlan,
+            createdAt: Date.now()
+        };
+
+        await this.userRepository.storeFheCircuit(record);
+        this.logger.log(`Stored circuit ${circuitId}: ${circuit.name} v${version}`);
+
+        return record;
+    }
+
+    public async get(circuitId: string, ownerAddress: string): Promise<StoredFheCircuit> {
+        const stored = await this.userRepository.getFheCircuit(circuitId);
+        if (!stored) {
+            throw new Error(`Circuit ${circuitId} not found`);
+        }
+
+        if (stored.ownerAddress.toLowerCase() !== ownerAddress.toLowerCase()) {
+            throw new Error(`Circuit ${circuitId} does not belong to this user`);
+        }
+
+        if (this.hashDefinition(stored.circuit, stored.executionPlan) !== stored.definitionHash) {
+            throw new Error(`Circuit ${circuitId} definition has been modified`);
+        }
+
+        return stored;
+    }
+
+    public async list(ownerAddress: string): Promise<StoredFheCircuit[]> {
+        const circuits = await this.userRepository.getFheCircuits(ownerAddress);
+        return circuits.sort((a, b) => a.createdAt - b.createdAt);
+    }
+
+    public async delete(circuitId: string, ownerAddress: string): Promise<void> {
+        // Ownership check before removal
+        await this.get(circuitId, ownerAddress);
+        await this.userRepository.deleteFheCircuit(circuitId);
+
+        this.logger.log(`Deleted circuit ${circuitId}`);
+    }
+
+    // Covers everything execution depends on, so neither the parameters nor the compiled plan can be swapped
+    private hashDefinition(circuit: FheCircuit, executionPlan: CircuitExecutionPlan): string {
+        return ethers.utils.id(JSON.stringify({
+            name: circuit.name,
+            scheme: circuit.scheme,
+            securityLevel: circuit.securityLevel,
+            inputs: circuit.inputs,
+            outputs: circuit.outputs,
+            gates: circuit.gates,
+            executionPlan
+        }));
+    }
+}
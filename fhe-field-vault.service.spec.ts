@@ -0,0 +1,108 @@
+import { UserRepository } from 'modules/database/repository/user.repository';
+import { FHE_CONSTANTS } from './constants';
+import { FheFieldVaultService } from './fhe-field-vault.service';
+import { EncryptedFieldStorage, FheEncryptedData, FheScheme, SecurityLevel } from './types';
+
+type RepositoryFake = jest.Mocked<Pick<UserRepository,
+    | 'getEncryptedFieldVersions'
+    | 'getEncryptedFields'
+    | 'insertEncryptedFieldVersion'
+    | 'incrementEncryptedFieldAccess'
+    | 'deleteEncryptedField'
+>>;
+
+function encrypted(fieldName: string, encryptedValue = '0x01'): FheEncryptedData {
+    return {
+        fieldName,
+        encryptedValue,
+        publicKeyHash: '0xkey',
+        metadata: {
+            scheme: FheScheme.BFV,
+            securityLevel: SecurityLevel.MEDIUM,
+            noiseLevel: 1,
+            bootstrappable: false,
+            timestamp: 0,
+            version: FHE_CONSTANTS.VERSION
+        }
+    };
+}
+
+describe('FheFieldVaultService', () => {
+    let records: EncryptedFieldStorage[];
+    let userRepository: RepositoryFake;
+    let vault: FheFieldVaultService;
+
+    beforeEach(() => {
+        records = [];
+        userRepository = {
+            getEncryptedFieldVersions: jest.fn(async (userId: string, fieldName: string) =>
+                records.filter(record => record.userId === userId && record.fieldName === fieldName)
+            ),
+            getEncryptedFields: jest.fn(async (userId: string) => records.filter(record => record.userId === userId)),
+            // Conditional insert: fails when the version has already been claimed
+            insertEncryptedFieldVersion: jest.fn(async (record: EncryptedFieldStorage) => {
+                const taken = records.some(stored =>
+                    stored.userId === record.userId
+                    && stored.fieldName === record.fieldName
+                    && stored.version === record.version
+                );
+                if (!taken) {
+                    records.push(record);
+                }
+                return !taken;
+            }),
+            incrementEncryptedFieldAccess: jest.fn(async (_userId: string, _fieldName: string, _version: number) => undefined),
+            deleteEncryptedField: jest.fn(async (userId: string, fieldName: string) => {
+                records = records.filter(record => record.userId !== userId || record.fieldName !== fieldName);
+            })
+        };
+        // The fake implements only what the vault calls
+        vault = new FheFieldVaultService(userRepository as unknown as UserRepository);
+    });
+
+    it('stores each write as the next version', async () => {
+        await vault.save('user', '0xwallet', encrypted('ssn', '0x01'));
+        const second = await vault.save('user', '0xwallet', encrypted('ssn', '0x02'));
+
+        expect(second.version).toBe(2);
+        expect((await vault.get('user', 'ssn')).encryptedData).toBe('0x02');
+        expect((await vault.get('user', 'ssn', 1)).encryptedData).toBe('0x01');
+    });
+
+    it('gives concurrent writes distinct versions', async () => {
+        const saved = await Promise.all([
+            vault.save('user', '0xwallet', encrypted('ssn', '0x01')),
+            vault.save('user', '0xwallet', encrypted('ssn', '0x02'))
+        ]);
+
+        expect(saved.map(record => record.version).sort()).toEqual([1, 2]);
+        expect((await vault.history('user', 'ssn')).map(record => record.version)).toEqual([1, 2]);
+    });
+
+    it('gives up when every attempt loses the version race', async () => {
+        userRepository.insertEncryptedFieldVersion.mockResolvedValue(false);
+
+        await expect(vault.save('user', '0xwallet', encrypted('ssn'))).rejects.toThrow(
+            FHE_CONSTANTS.ERROR_MESSAGES.VAULT_VERSION_CONFLICT
+        );
+        expect(userRepository.insertEncryptedFieldVersion).toHaveBeenCalledTimes(FHE_CONSTANTS.VAULT_WRITE_MAX_ATTEMPTS);
+    });
+
+    it('lists only the current version of each field', async () => {
+        await vault.save('user', '0xwallet', encrypted('ssn', '0x01'));
+        await vault.save('user', '0xwallet', encrypted('ssn', '0x02'));
+        await vault.save('user', '0xwallet', encrypted('dob', '0x03'));
+
+        const listed = await vault.list('user');
+
+        expect(listed.map(record => [record.fieldName, record.version])).toEqual([['dob', 1], ['ssn', 2]]);
+    });
+
+    it('rejects unknown fields and versions', async () => {
+        await vault.save('user', '0xwallet', encrypted('ssn'));
+
+        await expect(vault.get('user', 'ssn', 5)).rejects.toThrow('not found');
+        await expect(vault.delete('user', 'dob')).rejects.toThrow('not found');
+        expect(userRepository.deleteEncryptedField).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,111 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { UserRepository } from 'modules/database/repository/user.repository';
+import { FHE_CONSTANTS } from './constants';
+import { EncryptedFieldStorage, FheEncryptedData } from './types';
+
+@Injectable()
+export class FheFieldVaultService {
+    private readonly logger = new Logger(FheFieldVaultService.name);
+
+    constructor(
+        private readonly userRepository: UserRepository,
+    ) {}
+
+    public async save(
+        userId: string,
+        walletAddress: string,
+        encrypted: FheEncryptedData
+    ): Promise<EncryptedFieldStorage> {
+        // Every write is a new version; earlier ciphertexts stay available as history.
+        // The insert only succeeds if no concurrent write has claimed the version first.
+        for (let attempt = 1; attempt <= FHE_CONSTANTS.VAULT_WRITE_MAX_ATTEMPTS; attempt++) {
+            const versions = await this.userRepository.getEncryptedFieldVersions(userId, encrypted.fieldName);
+            const latest = this.latest(versions);
+            const now = new Date();
+
+            const record: EncryptedFieldStorage = {
+                userId,
+                walletAddress,
+                fieldName: encrypted.fieldName,
+                version: (latest?.version || 0) + 1,
+                encryptedData: encrypted.encryptedValue,
+                metadata: encrypted.metadata,
+                publicKeyHash: encrypted.publicKeyHash,
+                storage: encrypted.storage,
+                storageFieldName: encrypted.storageFieldName,
+                createdAt: versions.length ? this.earliest(versions).createdAt : now,
+                updatedAt: now,
+                accessCount: 0
+            };
+
+            if (await this.userRepository.insertEncryptedFieldVersion(record)) {
+                this.logger.log(`Stored field ${record.fieldName} v${record.version} for user ${userId}`);
+                return record;
+            }
+
+            this.logger.warn(`Version ${record.version} of field ${record.fieldName} taken concurrently, retrying`);
+        }
+
+        throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.VAULT_VERSION_CONFLICT}: ${encrypted.fieldName}`);
+    }
+
+    public async get(userId: string, fieldName: string, version?: number): Promise<EncryptedFieldStorage> {
+        const versions = await this.userRepository.getEncryptedFieldVersions(userId, fieldName);
+        const record = version === undefined
+            ? this.latest(versions)
+            : versions.find(stored => stored.version === version);
+
+        if (!record) {
+            throw new Error(
+                `Field ${fieldName}${version === undefined ? '' : ` v${version}`} not found in vault`
+            );
+        }
+
+        return record;
+    }
+
+    public async list(userId: string): Promise<EncryptedFieldStorage[]> {
+        // Only the current version of each field
+        const current = new Map<string, EncryptedFieldStorage>();
+        for (const record of await this.userRepository.getEncryptedFields(userId)) {
+            const existing = current.get(record.fieldName);
+            if (!existing || record.version > existing.version) {
+                current.set(record.fieldName, record);
+            }
+        }
+
+        return [...current.values()].sort((a, b) => a.fieldName.localeCompare(b.fieldName));
+    }
+
+    public async history(userId: string, fieldName: string): Promise<EncryptedFieldStorage[]> {
+        const versions = await this.userRepository.getEncryptedFieldVersions(userId, fieldName);
+        if (!versions.length) {
+            throw new Error(`Field ${fieldName} not found in vault`);
+        }
+
+        return versions.sort((a, b) => a.version - b.version);
+    }
+
+    public async recordAccess(record: EncryptedFieldStorage): Promise<void> {
+        await this.userRepository.incrementEncryptedFieldAccess(record.userId, record.fieldName, record.version);
+    }
+
+    public async delete(userId: string, fieldName: string): Promise<void> {
+        // Existence check before removal; removes every version
+        await this.get(userId, fieldName);
+        await this.userRepository.deleteEncryptedField(userId, fieldName);
+
+        this.logger.log(`Deleted field ${fieldName} for user ${userId}`);
+    }
+
+    private latest(versions: EncryptedFieldStorage[]): EncryptedFieldStorage | undefined {
+        return versions.reduce<EncryptedFieldStorage | undefined>(
+            (latest, record) => (!latest || record.version > latest.version ? record : latest),
+            undefined
+        );
+    }
+
+    private earliest(versions: EncryptedFieldStorage[]): EncryptedFieldStorage {
+        return versions.reduce((earliest, record) => (record.version < earliest.version ? record : earliest));
+    }
+}
@@ -0,0 +1,91 @@
+import { FHE_CONSTANTS } from './constants';
+import { FheMetricsService } from './fhe-metrics.service';
+import { FheScheme } from './types';
+
+describe('FheMetricsService', () => {
+    let now: number;
+    let metrics: FheMetricsService;
+
+    beforeEach(() => {
+        now = 1000;
+        jest.spyOn(Date, 'now').mockImplementation(() => now);
+        metrics = new FheMetricsService();
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    // Records back-to-back operations of the given duration, each finishing as the next starts
+    function recordSequential(operation: string, samples: number, durationMs: number, scheme = FheScheme.TFHE): void {
+        for (let index = 0; index < samples; index++) {
+            now += durationMs;
+            metrics.record({ scheme, operation, durationMs });
+        }
+    }
+
+    it('measures throughput over busy time, merging overlapping operations', () => {
+        metrics.record({ scheme: FheScheme.TFHE, operation: 'add', durationMs: 10 });
+        now = 1005;
+        metrics.record({ scheme: FheScheme.TFHE, operation: 'add', durationMs: 10 });
+
+        expect(metrics.getThroughput(FheScheme.TFHE, 'add')).toBeCloseTo(2000 / 15);
+
+        // An idle gap adds only the operation's own duration
+        now = 60000;
+        metrics.record({ scheme: FheScheme.TFHE, operation: 'add', durationMs: 10 });
+
+        expect(metrics.getThroughput(FheScheme.TFHE, 'add')).toBeCloseTo(3000 / 25);
+        expect(metrics.getThroughput(FheScheme.BFV, 'add')).toBe(0);
+    });
+
+    it('counts batched samples and clamps sub-millisecond durations', () => {
+        metrics.record({ scheme: FheScheme.BFV, operation: 'encrypt', durationMs: 0, count: 5 });
+
+        expect(metrics.getThroughput(FheScheme.BFV, 'encrypt')).toBe(5000);
+    });
+
+    it('raises an alert once enough samples fall below target and clears it on recovery', () => {
+        recordSequential('encrypt', FHE_CONSTANTS.METRICS_MIN_SAMPLES - 1, 2);
+        expect(metrics.getAlerts()).toEqual([]);
+
+        recordSequential('encrypt', 1, 2);
+        const raisedAt = now;
+        recordSequential('encrypt', 1, 2);
+
+        expect(metrics.getAlerts()).toEqual([{
+            scheme: FheScheme.TFHE,
+            operation: 'encrypt',
+            throughput: 500,
+            target: FHE_CONSTANTS.PERFORMANCE_TARGETS.ENCRYPT,
+            raisedAt
+        }]);
+        expect(metrics.getAlerts(FheScheme.BFV)).toEqual([]);
+        expect(metrics.getMetrics(FheScheme.TFHE).alerts).toHaveLength(1);
+        expect(metrics.exportPrometheus()).toContain('fhe_performance_alert{scheme="tfhe",operation="encrypt"} 1');
+
+        now += 1;
+        metrics.record({ scheme: FheScheme.TFHE, operation: 'encrypt', durationMs: 1, count: 100 });
+
+        expect(metrics.getAlerts()).toEqual([]);
+        expect(metrics.exportPrometheus()).toContain('fhe_performance_alert{scheme="tfhe",operation="encrypt"} 0');
+    });
+
+    it('reports homomorphic noise and bootstrapping apart from encryption', () => {
+        metrics.record({ scheme: FheScheme.CKKS, operation: 'encrypt', durationMs: 1 });
+        metrics.record({ scheme: FheScheme.CKKS, operation: 'multiply', durationMs: 1, noiseGrowth: 4 });
+        metrics.record({
+            scheme: FheScheme.CKKS,
+            operation: 'bootstrap',
+            durationMs: 1,
+            noiseGrowth: 2,
+            bootstrapped: true
+        });
+
+        const result = metrics.getMetrics(FheScheme.CKKS);
+
+        expect(result.averageNoiseGrowth).toBe(3);
+        expect(result.bootstrappingFrequency).toBe(0.5);
+        expect(metrics.exportPrometheus()).toContain('fhe_operations_total{scheme="ckks",operation="multiply"} 1');
+    });
+});
@@ -0,0 +1,212 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { FHE_CONSTANTS } from './constants';
+import { FhePerformanceAlert, FhePerformanceMetrics, FheScheme } from './types';
+
+interface OperationSample {
+    completedAt: number;
+    durationMs: number;
+    count: number;
+    noiseGrowth?: number;
+    bootstrapped: boolean;
+}
+
+interface OperationStats {
+    samples: OperationSample[];
+    total: number;
+    lastAlertAt: number;
+    // Set while the operation is below its target, cleared once it recovers
+    alert?: FhePerformanceAlert;
+}
+
+const NON_HOMOMORPHIC_OPERATIONS = new Set(['encrypt', 'decrypt']);
+
+@Injectable()
+export class FheMetricsService {
+    private readonly logger = new Logger(FheMetricsService.name);
+    private readonly stats = new Map<string, OperationStats>();
+
+    public record(sample: {
+        scheme: FheScheme;
+        operation: string;
+        durationMs: number;
+        count?: number;
+        noiseGrowth?: number;
+        bootstrapped?: boolean;
+    }): void {
+        const key = `${sample.scheme}:${sample.operation}`;
+        if (!this.stats.has(key)) {
+            this.stats.set(key, { samples: [], total: 0, lastAlertAt: 0 });
+        }
+
+        const stats = this.stats.get(key)!;
+        const count = sample.count || 1;
+
+        // Keep a rolling window so throughput reflects recent behaviour
+        stats.samples.push({
+            completedAt: Date.now(),
+            durationMs: sample.durationMs,
+            count,
+            noiseGrowth: sample.noiseGrowth,
+            bootstrapped: sample.bootstrapped || false
+        });
+        if (stats.samples.length > FHE_CONSTANTS.METRICS_WINDOW_SIZE) {
+            stats.samples.shift();
+        }
+        stats.total += count;
+
+        this.checkPerformanceTarget(sample.scheme, sample.operation, stats);
+    }
+
+    public getThroughput(scheme: FheScheme, operation: string): number {
+        const stats = this.stats.get(`${scheme}:${operation}`);
+        return stats ? this.throughput(stats.samples) : 0;
+    }
+
+    public getMetrics(scheme: FheScheme): FhePerformanceMetrics {
+        const homomorphicSamples = this.samplesFor(scheme, operation => !NON_HOMOMORPHIC_OPERATIONS.has(operation));
+        const noiseSamples = homomorphicSamples.filter(sample => sample.noiseGrowth !== undefined);
+        const bootstraps = homomorphicSamples.filter(sample => sample.bootstrapped).length;
+        const memory = process.memoryUsage();
+        const cpu = process.cpuUsage();
+
+        return {
+            encryptionThroughput: this.getThroughput(scheme, 'encrypt'),
+            decryptionThroughput: this.getThroughput(scheme, 'decrypt'),
+            homomorphicOpsThroughput: this.throughput(homomorphicSamples),
+            averageNoiseGrowth: noiseSamples.length
+                ? noiseSamples.reduce((sum, sample) => sum + sample.noiseGrowth!, 0) / noiseSamples.length
+                : 0,
+            bootstrappingFrequency: homomorphicSamples.length ? bootstraps / homomorphicSamples.length : 0,
+            memoryUsage: memory.heapUsed,
+            cpuUsage: (cpu.user + cpu.system) / (process.uptime() * 1e6),
+            alerts: this.getAlerts(scheme)
+        };
+    }
+
+    public getAlerts(scheme?: FheScheme): FhePerformanceAlert[] {
+        return [...this.stats.values()]
+            .map(stats => stats.alert)
+            .filter((alert): alert is FhePerformanceAlert => !!alert && (!scheme || alert.scheme === scheme));
+    }
+
+    // Prometheus text exposition format
+    public exportPrometheus(): string {
+        const lines: string[] = [
+            '# HELP fhe_operations_total Total FHE operations processed',
+            '# TYPE fhe_operations_total counter'
+        ];
+        for (const [key, stats] of this.stats) {
+            lines.push(`fhe_operations_total${this.labels(key)} ${stats.total}`);
+        }
+
+        lines.push(
+            '# HELP fhe_operation_throughput Operations per second over the recent window',
+            '# TYPE fhe_operation_throughput gauge'
+        );
+        for (const [key, stats] of this.stats) {
+            lines.push(`fhe_operation_throughput${this.labels(key)} ${this.throughput(stats.samples)}`);
+        }
+
+        lines.push(
+            '# HELP fhe_average_noise_growth Average noise growth per homomorphic operation',
+            '# TYPE fhe_average_noise_growth gauge',
+            '# HELP fhe_bootstrapping_frequency Fraction of homomorphic operations that bootstrapped',
+            '# TYPE fhe_bootstrapping_frequency gauge'
+        );
+        for (const scheme of Object.values(FheScheme)) {
+            const metrics = this.getMetrics(scheme);
+            lines.push(`fhe_average_noise_growth{scheme="${scheme}"} ${metrics.averageNoiseGrowth}`);
+            lines.push(`fhe_bootstrapping_frequency{scheme="${scheme}"} ${metrics.bootstrappingFrequency}`);
+        }
+
+        lines.push(
+            '# HELP fhe_performance_alert Whether the operation is below its throughput target',
+            '# TYPE fhe_performance_alert gauge'
+        );
+        for (const [key, stats] of this.stats) {
+            lines.push(`fhe_performance_alert${this.labels(key)} ${stats.alert ? 1 : 0}`);
+        }
+
+        const memory = process.memoryUsage();
+        lines.push(
+            '# HELP fhe_memory_usage_bytes Heap memory in use',
+            '# TYPE fhe_memory_usage_bytes gauge',
+            `fhe_memory_usage_bytes ${memory.heapUsed}`
+        );
+
+        return lines.join('\n') + '\n';
+    }
+
+    private checkPerformanceTarget(scheme: FheScheme, operation: string, stats: OperationStats): void {
+        const targets: Record<string, number> = FHE_CONSTANTS.PERFORMANCE_TARGETS;
+        const target = targets[operation.toUpperCase()];
+        if (!target || stats.samples.length < FHE_CONSTANTS.METRICS_MIN_SAMPLES) {
+            return;
+        }
+
+        const throughput = this.throughput(stats.samples);
+        if (throughput >= target) {
+            stats.alert = undefined;
+            return;
+        }
+
+        const now = Date.now();
+        stats.alert = {
+            scheme,
+            operation,
+            throughput,
+            target,
+            raisedAt: stats.alert?.raisedAt ?? now
+        };
+        if (now - stats.lastAlertAt >= FHE_CONSTANTS.METRICS_ALERT_INTERVAL) {
+            stats.lastAlertAt = now;
+            this.logger.warn(
+                `Performance alert: ${scheme} ${operation} at ${throughput.toFixed(1)} ops/s, target ${target} ops/s`
+            );
+        }
+    }
+
+    private samplesFor(scheme: FheScheme, includeOperation: (operation: string) => boolean): OperationSample[] {
+        const samples: OperationSample[] = [];
+        for (const [key, stats] of this.stats) {
+            const [statsScheme, operation] = key.split(':');
+            if (statsScheme === scheme && includeOperation(operation)) {
+                samples.push(...stats.samples);
+            }
+        }
+        return samples;
+    }
+
+    private throughput(samples: OperationSample[]): number {
+        if (!samples.length) {
+            return 0;
+        }
+
+        // Rate over busy time only: overlapping operations are merged so concurrency is not double
+        // counted, and idle gaps are left out so light traffic does not read as degradation.
+        // Sub-millisecond operations are clamped so a fast burst does not report infinite throughput.
+        const intervals = samples
+            .map(sample => ({ start: sample.completedAt - Math.max(sample.durationMs, 1), end: sample.completedAt }))
+            .sort((a, b) => a.start - b.start);
+
+        let busyMs = 0;
+        let current = intervals[0];
+        for (const interval of intervals.slice(1)) {
+            if (interval.start <= current.end) {
+                current = { start: current.start, end: Math.max(current.end, interval.end) };
+            } else {
+                busyMs += current.end - current.start;
+                current = interval;
+            }
+        }
+        busyMs += current.end - current.start;
+
+        const count = samples.reduce((sum, sample) => sum + sample.count, 0);
+        return (count * 1000) / busyMs;
+    }
+
+    private labels(key: string): string {
+        const [scheme, operation] = key.split(':');
+        return `{scheme="${scheme}",operation="${operation}"}`;
+    }
+}
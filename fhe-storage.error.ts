@@ -0,0 +1,28 @@
+import { ChainNames } from 'modules/blockchain/constants';
+import { FheChainStorageRecord } from './types';
+
+export type FheStorageErrorCode =
+    | 'GAS_LIMIT_EXCEEDED'
+    | 'GAS_ESTIMATION_FAILED'
+    | 'SUBMISSION_FAILED'
+    | 'TRANSACTION_REVERTED'
+    | 'TRANSACTION_TIMEOUT';
+
+export class FheStorageError extends Error {
+    constructor(
+        public readonly code: FheStorageErrorCode,
+        public readonly chain: ChainNames,
+        public readonly reason: string,
+        public readonly transactionHashes: string[] = [],
+        public readonly cause?: unknown,
+        // Replicas already written to other chains before this one failed
+        public readonly storedRecords: FheChainStorageRecord[] = []
+    ) {
+        super(`${reason} on ${chain}`);
+        this.name = FheStorageError.name;
+    }
+
+    public withStoredRecords(storedRecords: FheChainStorageRecord[]): FheStorageError {
+        return new FheStorageError(this.code, this.chain, this.reason, this.transactionHashes, this.cause, storedRecords);
+    }
+}
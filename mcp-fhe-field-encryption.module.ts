@@ -1,5 +1,9 @@
 import { Module } from '@nestjs/common';
 import { McpFheFieldEncryptionService } from './mcp-fhe-field-encryption.service';
+import { FheCircuitRegistryService } from './fhe-circuit-registry.service';
+import { FheAuditService } from './fhe-audit.service';
+import { FheMetricsService } from './fhe-metrics.service';
+import { FheFieldVaultService } from './fhe-field-vault.service';
 import { EvmUtils } from 'modules/blockchain/evm.utils';
 import { KmsModule } from 'modules/kms/kms.module';
 import { DatabaseModule } from 'modules/database/database.module';
@@ -13,8 +17,12 @@ import { SettingsModule } from 'modules/settings/settings.module';
     ],
     providers: [
         McpFheFieldEncryptionService,
+        FheCircuitRegistryService,
+        FheAuditService,
+        FheMetricsService,
+        FheFieldVaultService,
         EvmUtils
     ],
-    exports: [McpFheFieldEncryptionService]
+    exports: [McpFheFieldEncryptionService, FheAuditService, FheMetricsService]
 })
 export class McpFheFieldEncryptionModule {}
\ No newline at end of file
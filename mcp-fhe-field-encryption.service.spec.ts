@@ -0,0 +1,944 @@
+import { ethers } from 'ethers';
+import { ChainNames } from 'modules/blockchain/constants';
+import { EvmUtils } from 'modules/blockchain/evm.utils';
+import { UserRepository } from 'modules/database/repository/user.repository';
+import { KmsService } from 'modules/kms/kms.service';
+import { SettingsService } from 'modules/settings/settings.service';
+import { FHE_CONSTANTS } from './constants';
+import { FheAuditService } from './fhe-audit.service';
+import { FheCircuitRegistryService } from './fhe-circuit-registry.service';
+import { FheFieldVaultService } from './fhe-field-vault.service';
+import { FheMetricsService } from './fhe-metrics.service';
+import { FheStorageError } from './fhe-storage.error';
+import { McpFheFieldEncryptionService } from './mcp-fhe-field-encryption.service';
+import * as utils from './utils';
+import {
+    EncryptedFieldStorage,
+    EncryptionParams,
+    FheAuditLog,
+    FheCircuit,
+    FheScheme,
+    SecurityLevel,
+    StoredFheCircuit,
+    StoredFheKeySet
+} from './types';
+
+const USERS: Record<string, string> = {
+    alice: '0x00000000000000000000000000000000000a11ce',
+    bob: '0x0000000000000000000000000000000000000b0b'
+};
+const STORAGE_ADDRESS = '0x0000000000000000000000000000000000005107';
+const ARBITRUM_STORAGE_ADDRESS = '0x000000000000000000000000000000000000a4b1';
+
+interface SwitchingKeyRecord {
+    walletAddress: string;
+    scheme: FheScheme;
+    securityLevel: SecurityLevel;
+    fromPublicKeyHash: string;
+    toPublicKeyHash: string;
+    encryptedKey: string;
+    createdAt: number;
+}
+
+type RepositoryFake = jest.Mocked<Pick<UserRepository,
+    | 'getUserById'
+    | 'getUserAccountByWallet'
+    | 'getFheKeys'
+    | 'storeFheKeys'
+    | 'retireFheKeys'
+    | 'getLegacyFheKeys'
+    | 'deleteLegacyFheKeys'
+    | 'storeFheKeySwitchingKey'
+    | 'getFheKeySwitchingKey'
+    | 'getFheCircuit'
+    | 'getFheCircuits'
+    | 'storeFheCircuit'
+    | 'appendFheAuditLog'
+    | 'getEncryptedFieldVersions'
+    | 'getEncryptedFields'
+    | 'insertEncryptedFieldVersion'
+    | 'incrementEncryptedFieldAccess'
+>> & {
+    keySets: StoredFheKeySet[];
+    circuits: StoredFheCircuit[];
+    auditLogs: FheAuditLog[];
+    fields: EncryptedFieldStorage[];
+};
+
+type StoreArgs = [string, string, string, string];
+
+interface StoredField {
+    encryptedValue: string;
+    metadata: string;
+    timestamp: number;
+}
+
+interface StorageContractFake {
+    address: string;
+    connect: jest.Mock<StorageContractFake, [ethers.Signer]>;
+    estimateGas: { storeEncryptedField: jest.Mock<Promise<ethers.BigNumber>, StoreArgs> };
+    storeEncryptedField: jest.Mock<Promise<{ hash: string }>, StoreArgs>;
+    getEncryptedField: jest.Mock<Promise<StoredField>, [string, string, ethers.CallOverrides]>;
+}
+
+type ReceiptFake = Pick<ethers.providers.TransactionReceipt, 'transactionHash' | 'status' | 'gasUsed'>;
+
+interface SettingsFake {
+    contracts: Record<string, unknown>;
+    fhe: { integrityKey?: string; acceptUntaggedMetadataUntil?: number };
+}
+
+// The fakes implement only what the services call
+function asDependency<T>(fake: unknown): T {
+    return fake as T;
+}
+
+// In-memory stand-in for the database repository
+function createRepository(): RepositoryFake {
+    const keySets: StoredFheKeySet[] = [];
+    const switchingKeys: SwitchingKeyRecord[] = [];
+    const circuits: StoredFheCircuit[] = [];
+    const auditLogs: FheAuditLog[] = [];
+    const fields: EncryptedFieldStorage[] = [];
+
+    return {
+        keySets,
+        circuits,
+        auditLogs,
+        fields,
+        getUserById: jest.fn(async (userId: string) => USERS[userId] ? { walletAddress: USERS[userId] } : null),
+        getUserAccountByWallet: jest.fn(async (walletAddress: string) => ({ encryptedKey: `enc:pk-${walletAddress}` })),
+        getFheKeys: jest.fn(async (walletAddress: string, scheme: FheScheme, securityLevel: SecurityLevel) =>
+            [...keySets].reverse().find(set =>
+                set.walletAddress === walletAddress
+                && set.scheme === scheme
+                && Number(set.securityLevel) === securityLevel
+                && !set.retiredAt
+            ) || null
+        ),
+        storeFheKeys: jest.fn(async (set: StoredFheKeySet) => {
+            keySets.push(set);
+        }),
+        retireFheKeys: jest.fn(async (walletAddress: string, scheme: FheScheme, securityLevel: SecurityLevel, generatedAt: number) => {
+            keySets
+                .filter(set => set.walletAddress === walletAddress && set.scheme === scheme && set.generatedAt === generatedAt)
+                .forEach(set => set.retiredAt = Date.now());
+        }),
+        getLegacyFheKeys: jest.fn(async (_walletAddress: string) => null),
+        deleteLegacyFheKeys: jest.fn(async (_walletAddress: string) => undefined),
+        storeFheKeySwitchingKey: jest.fn(async (record: SwitchingKeyRecord) => {
+            switchingKeys.push(record);
+        }),
+        getFheKeySwitchingKey: jest.fn(async (walletAddress: string, scheme: FheScheme, securityLevel: SecurityLevel, toHash: string) =>
+            switchingKeys.find(record => record.walletAddress === walletAddress && record.toPublicKeyHash === toHash) || null
+        ),
+        getFheCircuit: jest.fn(async (circuitId: string) => circuits.find(stored => stored.circuitId === circuitId) || null),
+        getFheCircuits: jest.fn(async (ownerAddress: string) => circuits.filter(stored => stored.ownerAddress === ownerAddress)),
+        storeFheCircuit: jest.fn(async (record: StoredFheCircuit) => {
+            circuits.push(record);
+        }),
+        appendFheAuditLog: jest.fn(async (record: FheAuditLog) => {
+            auditLogs.push(record);
+        }),
+        getEncryptedFieldVersions: jest.fn(async (userId: string, fieldName: string) =>
+            fields.filter(record => record.userId === userId && record.fieldName === fieldName)
+        ),
+        getEncryptedFields: jest.fn(async (userId: string) => fields.filter(record => record.userId === userId)),
+        insertEncryptedFieldVersion: jest.fn(async (record: EncryptedFieldStorage) => {
+            fields.push(record);
+            return true;
+        }),
+        incrementEncryptedFieldAccess: jest.fn(async (_userId: string, _fieldName: string, _version: number) => undefined)
+    };
+}
+
+// Minimal local chain: a storage contract, a signer and a provider that mines every transaction at once
+function createLocalChain() {
+    const stored = new Map<string, StoredField>();
+    const receipts = new Map<string, ReceiptFake>();
+    let nonce = 0;
+
+    const provider = {
+        waitForTransaction: jest.fn(async (hash: string) => receipts.get(hash)),
+        getTransactionReceipt: jest.fn(async (hash: string) => receipts.get(hash) || null)
+    };
+    const signer = {
+        provider,
+        getAddress: jest.fn(async () => USERS.alice),
+        getTransactionCount: jest.fn(async () => nonce),
+        getFeeData: jest.fn(async () => ({ gasPrice: ethers.BigNumber.from(1000000000) }))
+    };
+    const contract: StorageContractFake = {
+        address: STORAGE_ADDRESS,
+        connect: jest.fn((_signer: ethers.Signer) => contract),
+        estimateGas: {
+            storeEncryptedField: jest.fn(async (..._args: StoreArgs) => ethers.BigNumber.from(150000))
+        },
+        storeEncryptedField: jest.fn(async (user: string, fieldName: string, encryptedValue: string, metadata: string) => {
+            const hash = ethers.utils.id(`${user}:${fieldName}:${nonce++}`);
+            stored.set(`${user}:${fieldName}`, { encryptedValue, metadata, timestamp: Date.now() });
+            receipts.set(hash, { transactionHash: hash, status: 1, gasUsed: ethers.BigNumber.from(120000) });
+            return { hash };
+        }),
+        getEncryptedField: jest.fn(async (user: string, fieldName: string, _overrides: ethers.CallOverrides) =>
+            stored.get(`${user}:${fieldName}`) || { encryptedValue: '', metadata: '0x', timestamp: 0 }
+        )
+    };
+
+    return { provider, signer, contract, stored };
+}
+
+describe('McpFheFieldEncryptionService', () => {
+    let repository: RepositoryFake;
+    let chain: ReturnType<typeof createLocalChain>;
+    let evmUtils: jest.Mocked<Pick<EvmUtils, 'privateKeyToSigner' | 'getContract' | 'explorerUrlForTx'>>;
+    let kmsService: jest.Mocked<Pick<KmsService, 'encryptSecret' | 'decryptSecret'>>;
+    let settings: SettingsFake;
+    let service: McpFheFieldEncryptionService;
+
+    beforeEach(async () => {
+        repository = createRepository();
+        chain = createLocalChain();
+        evmUtils = {
+            privateKeyToSigner: jest.fn((_chain: ChainNames, _privateKey: string) => asDependency<ethers.Wallet>(chain.signer)),
+            // Generic methods lose their type parameter under jest.fn, so the contract is a fixed return value
+            getContract: jest.fn().mockReturnValue(chain.contract),
+            explorerUrlForTx: jest.fn((_: ChainNames, hash: string) => `https://explorer.local/tx/${hash}`)
+        };
+        kmsService = {
+            encryptSecret: jest.fn(async (secret: string) => `enc:${secret}`),
+            decryptSecret: jest.fn(async (secret: string) => secret.replace(/^enc:/, ''))
+        };
+        settings = { contracts: {}, fhe: { integrityKey: 'enc:integrity', acceptUntaggedMetadataUntil: 0 } };
+
+        service = createService();
+        // Let the constructor's WASM initialization settle
+        await new Promise(resolve => setImmediate(resolve));
+    });
+
+    afterEach(() => {
+        jest.useRealTimers();
+        jest.restoreAllMocks();
+    });
+
+    function createService(): McpFheFieldEncryptionService {
+        const settingsService: Pick<SettingsService, 'getSettings'> = { getSettings: () => settings };
+        const userRepository = asDependency<UserRepository>(repository);
+
+        return new McpFheFieldEncryptionService(
+            asDependency<EvmUtils>(evmUtils),
+            asDependency<SettingsService>(settingsService),
+            userRepository,
+            asDependency<KmsService>(kmsService),
+            new FheCircuitRegistryService(userRepository),
+            new FheAuditService(userRepository),
+            new FheMetricsService(),
+            new FheFieldVaultService(userRepository)
+        );
+    }
+
+    // The mock scheme draws its noise from Math.random; a fixed draw lets decryption round-trip
+    function fixNoise(): void {
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    }
+
+    function stringFields(values: Record<string, string>, overrides: Partial<EncryptionParams> = {}): EncryptionParams[] {
+        return Object.entries(values).map(([fieldName, value]) => ({
+            fieldName,
+            value,
+            dataType: 'string',
+            scheme: FheScheme.BFV,
+            ...overrides
+        }));
+    }
+
+    describe('encryptBatch', () => {
+        it('packs compatible fields into one ciphertext and maps each to its slot', async () => {
+            const result = await service.encryptBatch('alice', {
+                fields: stringFields({ first: 'Ada', last: 'Lovelace', city: 'London' }),
+                commonScheme: FheScheme.BFV,
+                packedEncryption: true,
+                compressionEnabled: false
+            });
+
+            expect(result.ciphertextCount).toBe(1);
+            expect(result.slotMappings.map(mapping => [mapping.fieldName, mapping.slot])).toEqual([
+                ['first', 0], ['last', 1], ['city', 2]
+            ]);
+            expect(new Set(result.fields.map(field => field.encryptedValue)).size).toBe(1);
+        });
+
+        it('decrypts each packed field to its own value', async () => {
+            fixNoise();
+            const result = await service.encryptBatch('alice', {
+                fields: stringFields({ first: 'Ada', last: 'Lovelace' }),
+                commonScheme: FheScheme.BFV,
+                packedEncryption: true,
+                compressionEnabled: false
+            });
+
+            const decrypted = await Promise.all(result.fields.map(field => service.decryptField('alice', {
+                ...field,
+                originalDataType: 'string'
+            })));
+
+            expect(decrypted).toEqual(['Ada', 'Lovelace']);
+        });
+
+        it('stores a packed ciphertext once and reads each field back by name', async () => {
+            fixNoise();
+            const result = await service.encryptBatch('alice', {
+                fields: stringFields({ first: 'Ada', last: 'Lovelace' }, { storeOnChain: true }),
+                commonScheme: FheScheme.BFV,
+                packedEncryption: true,
+                compressionEnabled: false
+            });
+
+            // One shared write plus a slot reference per field
+            expect(chain.contract.storeEncryptedField).toHaveBeenCalledTimes(3);
+            expect(result.fields[0].storageFieldName).toBe(result.fields[1].storageFieldName);
+            expect(await service.decryptStoredField('alice', 'last', 'string')).toBe('Lovelace');
+            await expect(service.decryptStoredField('alice', result.fields[0].storageFieldName!, 'string')).rejects.toThrow(
+                FHE_CONSTANTS.ERROR_MESSAGES.PACKED_SLOT_MISSING
+            );
+        });
+
+        it('rejects batches over the size limit', async () => {
+            const values = Object.fromEntries(
+                Array.from({ length: FHE_CONSTANTS.MAX_BATCH_SIZE + 1 }, (_, index) => [`field${index}`, 'x'])
+            );
+
+            await expect(service.encryptBatch('alice', {
+                fields: stringFields(values),
+                commonScheme: FheScheme.BFV,
+                packedEncryption: true,
+                compressionEnabled: false
+            })).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.BATCH_SIZE_EXCEEDED);
+        });
+    });
+
+    describe('decryptBatch', () => {
+        it('decrypts a shared packed ciphertext once for all of its fields', async () => {
+            fixNoise();
+            const encrypted = await service.encryptBatch('alice', {
+                fields: stringFields({ first: 'Ada', last: 'Lovelace' }),
+                commonScheme: FheScheme.BFV,
+                packedEncryption: true,
+                compressionEnabled: false
+            });
+            const decrypt = jest.spyOn(utils, 'decryptValue');
+
+            const results = await service.decryptBatch('alice', {
+                fields: encrypted.fields.map(field => ({ ...field, originalDataType: 'string' })),
+                parallelProcessing: true,
+                errorHandling: 'fail'
+            });
+
+            expect(results.map(result => result.value)).toEqual(['Ada', 'Lovelace']);
+            expect(decrypt).toHaveBeenCalledTimes(1);
+        });
+
+        it('reports failed fields and carries on when skipping errors', async () => {
+            fixNoise();
+            const own = await service.encryptField('alice', {
+                fieldName: 'city',
+                value: 'London',
+                dataType: 'string',
+                scheme: FheScheme.BFV
+            });
+            const foreign = await service.encryptField('bob', {
+                fieldName: 'city',
+                value: 'Paris',
+                dataType: 'string',
+                scheme: FheScheme.BFV
+            });
+
+            const results = await service.decryptBatch('alice', {
+                fields: [
+                    { ...foreign, fieldName: 'foreign', originalDataType: 'string' },
+                    { ...own, originalDataType: 'string' }
+                ],
+                parallelProcessing: false,
+                errorHandling: 'skip'
+            });
+
+            expect(results[0]).toMatchObject({ fieldName: 'foreign', success: false });
+            expect(results[1]).toEqual({ fieldName: 'city', success: true, value: 'London' });
+        });
+
+        it('fails the whole batch on the first error otherwise', async () => {
+            const foreign = await service.encryptField('bob', {
+                fieldName: 'city',
+                value: 'Paris',
+                dataType: 'string',
+                scheme: FheScheme.BFV
+            });
+
+            await expect(service.decryptBatch('alice', {
+                fields: [{ ...foreign, originalDataType: 'string' }],
+                parallelProcessing: false,
+                errorHandling: 'fail'
+            })).rejects.toThrow(`${FHE_CONSTANTS.ERROR_MESSAGES.DECRYPTION_FAILED} for field city`);
+        });
+    });
+
+    describe('executeCircuit', () => {
+        const sum = (scheme: FheScheme): FheCircuit => ({
+            name: 'sum',
+            scheme,
+            inputs: ['a', 'b'],
+            outputs: ['total'],
+            gates: [{ operation: 'add', inputs: ['a', 'b'], output: 'total' }]
+        });
+
+        async function encryptInputs(userId: string, scheme: FheScheme): Promise<Record<string, string>> {
+            const inputs: Record<string, string> = {};
+            for (const [fieldName, value] of [['a', 2], ['b', 3]] as const) {
+                const encrypted = await service.encryptField(userId, { fieldName, value, dataType: 'number', scheme });
+                inputs[fieldName] = encrypted.encryptedValue;
+            }
+            return inputs;
+        }
+
+        it('evaluates gates under the circuit scheme', async () => {
+            const circuitId = await service.createFheCircuit('alice', sum(FheScheme.BFV));
+            const inputs = await encryptInputs('alice', FheScheme.BFV);
+
+            const evaluation = await service.executeCircuit('alice', circuitId, inputs);
+
+            expect(evaluation.outputMetadata.total.scheme).toBe(FheScheme.BFV);
+            expect(repository.getFheKeys.mock.calls.every(([, scheme]) => scheme === FheScheme.BFV)).toBe(true);
+        });
+
+        it('checks every input against the circuit scheme before running any gate', async () => {
+            const circuitId = await service.createFheCircuit('alice', sum(FheScheme.BFV));
+            const inputs = await encryptInputs('alice', FheScheme.CKKS);
+            const add = jest.spyOn(utils, 'performHomomorphicAdd');
+
+            await expect(service.executeCircuit('alice', circuitId, inputs)).rejects.toThrow(
+                FHE_CONSTANTS.ERROR_MESSAGES.SCHEME_MISMATCH
+            );
+            expect(add).not.toHaveBeenCalled();
+        });
+
+        it('runs every gate under the evaluation key of the caller and reports each gate', async () => {
+            const circuitId = await service.createFheCircuit('alice', {
+                ...sum(FheScheme.BFV),
+                outputs: ['product'],
+                gates: [
+                    { operation: 'add', inputs: ['a', 'b'], output: 'total' },
+                    { operation: 'multiply', inputs: ['total', 'a'], output: 'product' }
+                ]
+            });
+            const inputs = await encryptInputs('alice', FheScheme.BFV);
+            repository.getUserById.mockClear();
+
+            const evaluation = await service.executeCircuit('alice', circuitId, inputs);
+
+            expect(evaluation.gateResults.map(result => [result.operation, result.output])).toEqual([
+                ['add', 'total'], ['multiply', 'product']
+            ]);
+            expect(repository.getUserById.mock.calls).toEqual([['alice']]);
+        });
+
+        it('selects between inputs on an encrypted comparison', async () => {
+            const circuitId = await service.createFheCircuit('alice', {
+                name: 'max',
+                scheme: FheScheme.TFHE,
+                inputs: ['a', 'b'],
+                outputs: ['max'],
+                gates: [
+                    { operation: 'lt', inputs: ['a', 'b'], output: 'less' },
+                    { operation: 'select', inputs: ['less', 'b', 'a'], output: 'max' }
+                ]
+            });
+            const inputs = await encryptInputs('alice', FheScheme.TFHE);
+            const compare = jest.spyOn(utils, 'performHomomorphicCompare');
+            const select = jest.spyOn(utils, 'performHomomorphicSelect');
+
+            const evaluation = await service.executeCircuit('alice', circuitId, inputs);
+
+            expect(evaluation.gateResults.map(result => result.operation)).toEqual(['lt', 'select']);
+            expect(compare.mock.calls[0][3]).toBe('lt');
+            expect(select).toHaveBeenCalledTimes(1);
+            expect(evaluation.outputMetadata.max.scheme).toBe(FheScheme.TFHE);
+        });
+
+        it('only runs circuits for their owner', async () => {
+            const circuitId = await service.createFheCircuit('alice', sum(FheScheme.BFV));
+            const inputs = await encryptInputs('bob', FheScheme.BFV);
+
+            await expect(service.executeCircuit('bob', circuitId, inputs)).rejects.toThrow('does not belong to this user');
+        });
+
+        it('rejects inputs encrypted under the key of another user', async () => {
+            const circuitId = await service.createFheCircuit('alice', sum(FheScheme.BFV));
+            const inputs = await encryptInputs('bob', FheScheme.BFV);
+
+            await expect(service.executeCircuit('alice', circuitId, inputs)).rejects.toThrow(
+                FHE_CONSTANTS.ERROR_MESSAGES.KEY_MISMATCH
+            );
+        });
+
+        it('rejects gates the scheme cannot run', async () => {
+            await expect(service.createFheCircuit('alice', {
+                name: 'shift',
+                scheme: FheScheme.TFHE,
+                inputs: ['a'],
+                outputs: ['x'],
+                gates: [{ operation: 'rotate', inputs: ['a'], output: 'x', parameters: { amount: 1 } }]
+            })).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.UNSUPPORTED_GATE);
+        });
+    });
+
+    describe('estimateNoise', () => {
+        it('derives the estimate from the noise and depth a ciphertext carries', async () => {
+            const fresh = await service.encryptField('alice', {
+                fieldName: 'ssn',
+                value: 42,
+                dataType: 'number',
+                scheme: FheScheme.BFV
+            });
+            const ciphertext = utils.deserializeCiphertext(fresh.encryptedValue);
+            const worn = utils.serializeCiphertext({ ...ciphertext, noise: ciphertext.noise * 1000, depth: 10 });
+
+            const freshEstimate = service.estimateNoise({ encryptedValue: fresh.encryptedValue, scheme: FheScheme.BFV });
+            const wornEstimate = service.estimateNoise({ encryptedValue: worn, scheme: FheScheme.BFV });
+
+            expect(service.estimateNoise({ encryptedValue: fresh.encryptedValue, scheme: FheScheme.BFV }))
+                .toEqual(freshEstimate);
+            expect(freshEstimate.currentNoise).toBe(fresh.metadata.noiseLevel);
+            expect(freshEstimate.remainingComputations).toBeGreaterThan(0);
+            expect(freshEstimate.requiresBootstrapping).toBe(false);
+            expect(wornEstimate.currentNoise).toBeGreaterThan(freshEstimate.currentNoise);
+            expect(wornEstimate.requiresBootstrapping).toBe(true);
+        });
+    });
+
+    describe('generateKeys', () => {
+        it('provisions a complete key set and persists only wrapped secrets', async () => {
+            const result = await service.generateKeys('alice', {
+                scheme: FheScheme.TFHE,
+                securityLevel: SecurityLevel.HIGH,
+                generateBootstrappingKeys: true
+            });
+            const [stored] = repository.keySets;
+            const privateKey = stored.encryptedPrivateKey.replace(/^enc:/, '');
+
+            expect(result.securityLevel).toBe(SecurityLevel.HIGH);
+            expect(result.keys.map(key => key.type)).toEqual([
+                'public', 'private', 'evaluation', 'relinearization', 'bootstrapping'
+            ]);
+            expect(result.keys.find(key => key.type === 'private')).toEqual({
+                type: 'private',
+                hash: ethers.utils.keccak256(privateKey),
+                size: ethers.utils.hexDataLength(privateKey),
+                count: 1
+            });
+            expect(stored).toMatchObject({ scheme: FheScheme.TFHE, securityLevel: SecurityLevel.HIGH });
+            expect(stored.encryptedPrivateKey).toBe(`enc:${privateKey}`);
+            expect(stored.encryptedRelinKeys).toMatch(/^enc:/);
+            expect(stored.encryptedBootstrappingKey).toMatch(/^enc:/);
+            expect(JSON.stringify(result)).not.toContain(privateKey.slice(2));
+        });
+
+        it('adds Galois keys where the scheme packs slots', async () => {
+            const result = await service.generateKeys('alice', { scheme: FheScheme.BFV, generateGaloisKeys: true });
+            const galois = result.keys.find(key => key.type === 'galois')!;
+
+            expect(galois.count).toBe(Math.log2(FHE_CONSTANTS.SIMD_SLOT_COUNT[FheScheme.BFV]));
+            expect(repository.keySets[0].encryptedGaloisKeys).toMatch(/^enc:/);
+        });
+
+        it('rejects key types the scheme cannot use', async () => {
+            await expect(
+                service.generateKeys('alice', { scheme: FheScheme.TFHE, generateGaloisKeys: true })
+            ).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.UNSUPPORTED_KEY_TYPE);
+            await expect(
+                service.generateKeys('alice', { scheme: FheScheme.BFV, generateBootstrappingKeys: true })
+            ).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.UNSUPPORTED_KEY_TYPE);
+            expect(repository.storeFheKeys).not.toHaveBeenCalled();
+        });
+
+        it('never replaces a live key set', async () => {
+            await service.generateKeys('alice', { scheme: FheScheme.BFV });
+
+            await expect(service.generateKeys('alice', { scheme: FheScheme.BFV })).rejects.toThrow(
+                FHE_CONSTANTS.ERROR_MESSAGES.KEYS_ALREADY_EXIST
+            );
+            expect(repository.keySets).toHaveLength(1);
+        });
+    });
+
+    describe('key sets', () => {
+        it('keeps a separate key set per scheme and security level', async () => {
+            fixNoise();
+            const params: Array<Pick<EncryptionParams, 'scheme' | 'securityLevel'>> = [
+                { scheme: FheScheme.BFV, securityLevel: SecurityLevel.MEDIUM },
+                { scheme: FheScheme.BFV, securityLevel: SecurityLevel.HIGH },
+                { scheme: FheScheme.TFHE, securityLevel: SecurityLevel.MEDIUM }
+            ];
+
+            const encrypted = [];
+            for (const [index, param] of params.entries()) {
+                const [field] = stringFields({ [`field${index}`]: 'Ada' }, param);
+                encrypted.push(await service.encryptField('alice', field));
+            }
+
+            expect(repository.keySets.map(set => [set.scheme, set.securityLevel])).toEqual(
+                params.map(param => [param.scheme, param.securityLevel])
+            );
+            expect(new Set(repository.keySets.map(set => set.publicKey)).size).toBe(params.length);
+            expect(new Set(encrypted.map(field => field.publicKeyHash)).size).toBe(params.length);
+            const decrypted = await Promise.all(encrypted.map(field => service.decryptField('alice', {
+                ...field,
+                originalDataType: 'string'
+            })));
+            expect(decrypted).toEqual(['Ada', 'Ada', 'Ada']);
+        });
+
+        it('copies a legacy key set to each level that asks for it', async () => {
+            await service.generateKeys('alice', { scheme: FheScheme.TFHE });
+            const legacy = { ...repository.keySets.pop()!, securityLevel: undefined };
+            repository.getLegacyFheKeys.mockResolvedValue(legacy);
+            const defaultLevel = FHE_CONSTANTS.SCHEME_PARAMS[FheScheme.TFHE].securityLevel;
+            const encryptAt = (securityLevel: SecurityLevel) => service.encryptField(
+                'alice',
+                stringFields({ city: 'London' }, { scheme: FheScheme.TFHE, securityLevel })[0]
+            );
+
+            await encryptAt(SecurityLevel.LOW);
+
+            expect(repository.keySets.map(set => set.securityLevel)).toEqual([SecurityLevel.LOW, defaultLevel]);
+            expect(repository.keySets.every(set => set.publicKey === legacy.publicKey)).toBe(true);
+            expect(repository.deleteLegacyFheKeys).not.toHaveBeenCalled();
+
+            await encryptAt(SecurityLevel.HIGH);
+
+            expect(repository.keySets.map(set => set.securityLevel)).toEqual([
+                SecurityLevel.LOW, defaultLevel, SecurityLevel.HIGH
+            ]);
+            expect(repository.deleteLegacyFheKeys).toHaveBeenCalledWith(USERS.alice);
+        });
+
+        it('refuses ciphertexts bound to the key set of another user', async () => {
+            const foreign = await service.encryptField('bob', stringFields({ city: 'London' })[0]);
+            await service.encryptField('alice', stringFields({ city: 'Paris' })[0]);
+
+            await expect(service.decryptField('alice', { ...foreign, originalDataType: 'string' })).rejects.toThrow(
+                FHE_CONSTANTS.ERROR_MESSAGES.KEY_MISMATCH
+            );
+        });
+
+        it('refuses a stored key set for different parameters than requested', async () => {
+            const encrypted = await service.encryptField('alice', stringFields({ city: 'London' })[0]);
+            repository.getFheKeys.mockResolvedValueOnce({ ...repository.keySets[0], scheme: FheScheme.CKKS });
+
+            await expect(service.decryptField('alice', { ...encrypted, originalDataType: 'string' })).rejects.toThrow(
+                FHE_CONSTANTS.ERROR_MESSAGES.KEY_SET_MISMATCH
+            );
+        });
+    });
+
+    describe('rotateKeys', () => {
+        it('validates every input before persisting the new key set', async () => {
+            await service.encryptField('alice', { fieldName: 'ssn', value: 42, dataType: 'number', scheme: FheScheme.BFV });
+            const foreign = await service.encryptField('bob', { fieldName: 'ssn', value: 7, dataType: 'number', scheme: FheScheme.BFV });
+            const keySetsBefore = repository.keySets.length;
+
+            await expect(service.rotateKeys('alice', FheScheme.BFV, [foreign.encryptedValue])).rejects.toThrow(
+                FHE_CONSTANTS.ERROR_MESSAGES.KEY_MISMATCH
+            );
+            expect(repository.storeFheKeySwitchingKey).not.toHaveBeenCalled();
+            expect(repository.retireFheKeys).not.toHaveBeenCalled();
+            expect(repository.keySets).toHaveLength(keySetsBefore);
+        });
+
+        it('re-encrypts vault fields under the new key with signed metadata', async () => {
+            await service.encryptField('alice', {
+                fieldName: 'ssn',
+                value: 42,
+                dataType: 'number',
+                scheme: FheScheme.BFV,
+                storeInVault: true
+            });
+
+            const result = await service.rotateKeys('alice', FheScheme.BFV);
+            const current = await service.getVaultField('alice', 'ssn');
+
+            expect(result.reencryptedVaultFields).toEqual(['ssn']);
+            expect(result.failedVaultFields).toEqual([]);
+            expect(current.version).toBe(2);
+            expect(current.publicKeyHash).toBe(result.publicKeyHash);
+            expect(current.metadata.integrityTag).toBeDefined();
+        });
+
+        it('only switches ciphertexts produced under the switching key source', async () => {
+            await service.encryptField('alice', { fieldName: 'ssn', value: 42, dataType: 'number', scheme: FheScheme.BFV });
+            const foreign = await service.encryptField('bob', { fieldName: 'ssn', value: 7, dataType: 'number', scheme: FheScheme.BFV });
+            const rotation = await service.rotateKeys('alice', FheScheme.BFV);
+
+            await expect(service.reencryptCiphertext('alice', {
+                encryptedValue: foreign.encryptedValue,
+                newPublicKeyHash: rotation.publicKeyHash,
+                scheme: FheScheme.BFV
+            })).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.KEY_MISMATCH);
+        });
+    });
+
+    describe('audit', () => {
+        it('records failed operations with their error', async () => {
+            await expect(service.encryptField('carol', stringFields({ city: 'London' })[0])).rejects.toThrow(
+                'User wallet not found'
+            );
+
+            expect(repository.auditLogs).toEqual([expect.objectContaining({
+                userId: 'carol',
+                operationType: 'encrypt',
+                fieldName: 'city',
+                scheme: FheScheme.BFV,
+                success: false,
+                errorMessage: 'User wallet not found'
+            })]);
+        });
+
+        it('records lookups that fail before the scheme is known under the default scheme', async () => {
+            await expect(service.executeCircuit('alice', 'missing', {})).rejects.toThrow('Circuit missing not found');
+            await expect(
+                service.decryptField('alice', { fieldName: 'ssn', originalDataType: 'string' })
+            ).rejects.toThrow('not found');
+
+            expect(repository.auditLogs.map(log => [log.operationType, log.scheme, log.success])).toEqual([
+                ['compute', FHE_CONSTANTS.DEFAULT_SCHEME, false],
+                ['decrypt', FHE_CONSTANTS.DEFAULT_SCHEME, false]
+            ]);
+            expect(repository.auditLogs[0].operation).toBe('circuit:missing');
+        });
+
+        it('rejects a batch at its timeout and audits the fields once in-flight work settles', async () => {
+            let releaseSigner!: () => void;
+            repository.getUserAccountByWallet.mockImplementationOnce(async (walletAddress: string) => {
+                await new Promise<void>(resolve => releaseSigner = resolve);
+                return { encryptedKey: `enc:pk-${walletAddress}` };
+            });
+            jest.useFakeTimers({ doNotFake: ['setImmediate', 'nextTick'] });
+
+            const pending = service.encryptBatch('alice', {
+                fields: stringFields({ first: 'Ada', last: 'Lovelace' }, { storeOnChain: true }),
+                commonScheme: FheScheme.BFV,
+                packedEncryption: true,
+                compressionEnabled: false
+            });
+            const rejected = expect(pending).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.BATCH_TIMEOUT);
+            await jest.advanceTimersByTimeAsync(FHE_CONSTANTS.BATCH_TIMEOUT);
+            await rejected;
+
+            expect(repository.auditLogs).toHaveLength(0);
+
+            // The shared write was already under way, so it still lands and is audited as stored
+            releaseSigner();
+            while (repository.auditLogs.length < 2) {
+                await new Promise(resolve => setImmediate(resolve));
+            }
+            expect(repository.auditLogs.map(log => [log.fieldName, log.success])).toEqual([
+                ['first', true],
+                ['last', true]
+            ]);
+        });
+    });
+
+    describe('metadata integrity', () => {
+        it('rejects altered metadata before loading any keys', async () => {
+            const encrypted = await service.encryptField('alice', stringFields({ city: 'London' })[0]);
+            const forgeries = [
+                { ...encrypted.metadata, securityLevel: SecurityLevel.HIGH },
+                { ...encrypted.metadata, scheme: FheScheme.BGV },
+                { ...encrypted.metadata, integrityTag: ethers.utils.hexlify(ethers.utils.randomBytes(32)) },
+                { ...encrypted.metadata, integrityTag: 'not a tag' }
+            ];
+            repository.getFheKeys.mockClear();
+            repository.getLegacyFheKeys.mockClear();
+
+            for (const metadata of forgeries) {
+                await expect(service.decryptField('alice', { ...encrypted, metadata, originalDataType: 'string' }))
+                    .rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+            }
+            await expect(service.decryptBatch('alice', {
+                fields: [{ ...encrypted, metadata: forgeries[0], originalDataType: 'string' }],
+                parallelProcessing: false,
+                errorHandling: 'fail'
+            })).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+            expect(repository.getFheKeys).not.toHaveBeenCalled();
+            expect(repository.getLegacyFheKeys).not.toHaveBeenCalled();
+        });
+
+        it('rejects untagged metadata once the migration window has closed', async () => {
+            const encrypted = await service.encryptField('alice', stringFields({ city: 'London' })[0]);
+            const untagged = { ...encrypted.metadata, integrityTag: undefined };
+
+            await expect(service.decryptField('alice', {
+                ...encrypted,
+                metadata: untagged,
+                originalDataType: 'string'
+            })).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+        });
+
+        it('accepts untagged metadata that matches the ciphertext within the migration window', async () => {
+            fixNoise();
+            settings.fhe.acceptUntaggedMetadataUntil = Date.now() + 60000;
+            const encrypted = await service.encryptField('alice', stringFields({ city: 'London' })[0]);
+            const untagged = { ...encrypted.metadata, integrityTag: undefined };
+
+            await expect(service.decryptField('alice', {
+                ...encrypted,
+                metadata: untagged,
+                originalDataType: 'string'
+            })).resolves.toBe('London');
+            await expect(service.decryptField('alice', {
+                ...encrypted,
+                metadata: { ...untagged, securityLevel: SecurityLevel.HIGH },
+                originalDataType: 'string'
+            })).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+        });
+
+        it('refuses to start without an integrity key or a migration cut-off', () => {
+            settings.fhe = { acceptUntaggedMetadataUntil: 0 };
+            expect(() => createService()).toThrow(FHE_CONSTANTS.ERROR_MESSAGES.INTEGRITY_KEY_NOT_CONFIGURED);
+
+            settings.fhe = { integrityKey: 'enc:integrity' };
+            expect(() => createService()).toThrow(FHE_CONSTANTS.ERROR_MESSAGES.UNTAGGED_METADATA_CUTOFF_NOT_CONFIGURED);
+        });
+    });
+
+    describe('on-chain storage', () => {
+        it('reads back what was stored without the wallet key', async () => {
+            const encrypted = await service.encryptField('alice', {
+                fieldName: 'ssn',
+                value: 42,
+                dataType: 'number',
+                scheme: FheScheme.BFV,
+                storeOnChain: true
+            });
+
+            const fetched = await service.fetchEncryptedField('alice', 'ssn');
+
+            expect(encrypted.storage).toHaveLength(1);
+            expect(encrypted.transactionHash).toBe(encrypted.storage![0].transactionHash);
+            expect(fetched.encryptedValue).toBe(encrypted.encryptedValue);
+            expect(fetched.metadata).toEqual(encrypted.metadata);
+            // Only the write decrypts the wallet key; the read calls from the wallet address
+            expect(repository.getUserAccountByWallet).toHaveBeenCalledTimes(1);
+            expect(chain.contract.getEncryptedField).toHaveBeenCalledWith(
+                USERS.alice,
+                ethers.utils.formatBytes32String('ssn'),
+                { from: USERS.alice }
+            );
+        });
+
+        it('reports a missing field', async () => {
+            await expect(service.fetchEncryptedField('alice', 'missing')).rejects.toThrow(
+                FHE_CONSTANTS.ERROR_MESSAGES.FIELD_NOT_FOUND
+            );
+        });
+
+        describe('across chains', () => {
+            let arbitrum: ReturnType<typeof createLocalChain>;
+
+            beforeEach(() => {
+                arbitrum = createLocalChain();
+                arbitrum.contract.address = ARBITRUM_STORAGE_ADDRESS;
+                settings.contracts = { fheStorageByChain: { [ChainNames.ARBITRUM]: ARBITRUM_STORAGE_ADDRESS } };
+                evmUtils.privateKeyToSigner.mockImplementation((target: ChainNames) => asDependency<ethers.Wallet>(
+                    target === ChainNames.ARBITRUM ? arbitrum.signer : chain.signer
+                ));
+                evmUtils.getContract.mockImplementation((target: ChainNames) =>
+                    target === ChainNames.ARBITRUM ? arbitrum.contract : chain.contract
+                );
+            });
+
+            it('writes a replica to each requested chain and reads from any of them', async () => {
+                const encrypted = await service.encryptField('alice', {
+                    fieldName: 'ssn',
+                    value: 42,
+                    dataType: 'number',
+                    scheme: FheScheme.BFV,
+                    storeOnChain: true,
+                    chain: [ChainNames.CYPHER, ChainNames.ARBITRUM]
+                });
+
+                expect(encrypted.storage!.map(record => [record.chain, record.contractAddress])).toEqual([
+                    [ChainNames.CYPHER, STORAGE_ADDRESS],
+                    [ChainNames.ARBITRUM, ARBITRUM_STORAGE_ADDRESS]
+                ]);
+                expect(evmUtils.getContract).toHaveBeenCalledWith(
+                    ChainNames.ARBITRUM,
+                    ARBITRUM_STORAGE_ADDRESS,
+                    FHE_CONSTANTS.STORAGE_ABI
+                );
+                const fetched = await service.fetchEncryptedField('alice', 'ssn', ChainNames.ARBITRUM);
+                expect(fetched.encryptedValue).toBe(encrypted.encryptedValue);
+            });
+
+            it('reports the replicas that landed when a later chain fails', async () => {
+                arbitrum.contract.estimateGas.storeEncryptedField.mockRejectedValue(new Error('execution reverted'));
+
+                const error = await service.encryptField('alice', {
+                    fieldName: 'ssn',
+                    value: 42,
+                    dataType: 'number',
+                    scheme: FheScheme.BFV,
+                    storeOnChain: true,
+                    chain: [ChainNames.CYPHER, ChainNames.ARBITRUM]
+                }).catch((caught: unknown) => caught);
+
+                expect(error).toBeInstanceOf(FheStorageError);
+                expect(error).toMatchObject({
+                    code: 'GAS_ESTIMATION_FAILED',
+                    chain: ChainNames.ARBITRUM,
+                    storedRecords: [
+                        expect.objectContaining({ chain: ChainNames.CYPHER, contractAddress: STORAGE_ADDRESS })
+                    ]
+                });
+                expect(arbitrum.contract.storeEncryptedField).not.toHaveBeenCalled();
+            });
+        });
+
+        it('keeps waiting on a pending write when its replacement is underpriced', async () => {
+            const write = chain.contract.storeEncryptedField.getMockImplementation()!;
+            chain.provider.waitForTransaction
+                .mockRejectedValueOnce(Object.assign(new Error('timeout'), { code: ethers.utils.Logger.errors.TIMEOUT }));
+            chain.provider.getTransactionReceipt.mockResolvedValue(null);
+            chain.contract.storeEncryptedField
+                .mockImplementationOnce(write)
+                .mockRejectedValueOnce(Object.assign(
+                    new Error('replacement transaction underpriced'),
+                    { code: ethers.utils.Logger.errors.REPLACEMENT_UNDERPRICED }
+                ));
+
+            const encrypted = await service.encryptField('alice', {
+                fieldName: 'ssn',
+                value: 42,
+                dataType: 'number',
+                scheme: FheScheme.BFV,
+                storeOnChain: true
+            });
+
+            const [original] = chain.contract.storeEncryptedField.mock.results;
+            expect(encrypted.transactionHash).toBe((await original.value).hash);
+            expect(chain.contract.storeEncryptedField).toHaveBeenCalledTimes(2);
+        });
+
+        it('rejects writes whose estimate exceeds the payload-sized cap', async () => {
+            chain.contract.estimateGas.storeEncryptedField.mockResolvedValue(ethers.BigNumber.from(50000000));
+
+            await expect(service.encryptField('alice', {
+                fieldName: 'ssn',
+                value: 42,
+                dataType: 'number',
+                scheme: FheScheme.BFV,
+                storeOnChain: true
+            })).rejects.toThrow(FHE_CONSTANTS.ERROR_MESSAGES.STORE_GAS_LIMIT_EXCEEDED);
+            expect(chain.contract.storeEncryptedField).not.toHaveBeenCalled();
+        });
+    });
+});
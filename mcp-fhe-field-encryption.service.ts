@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { timingSafeEqual } from 'crypto';
 import { ethers } from 'ethers';
 import { ChainNames } from 'modules/blockchain/constants';
 import { EvmUtils } from 'modules/blockchain/evm.utils';
@@ -7,16 +8,44 @@ import { SettingsService } from 'modules/settings/settings.service';
 import { KmsService } from 'modules/kms/kms.service';
 import {
     FheEncryptedData,
+    FheChainStorageRecord,
+    StoredFheKeySet,
     FheKeyPair,
     FheScheme,
+    SecurityLevel,
     EncryptionParams,
     DecryptionParams,
     HomomorphicOperation,
     FheCircuit,
     BootstrappingKey,
+    GaloisKey,
     CiphertextMetadata,
-    FheComputationResult
+    FheComputationResult,
+    BatchEncryption,
+    BatchEncryptionResult,
+    BatchSlotMapping,
+    BatchDecryption,
+    BatchDecryptionResult,
+    CircuitExecutionPlan,
+    CircuitOperation,
+    StoredFheCircuit,
+    HomomorphicEvaluation,
+    GateEvaluationResult,
+    NoiseEstimate,
+    FheKeyDescriptor,
+    FheKeyGenerationResult,
+    FheKeyRotationResult,
+    FheReencryptionResult,
+    FheCacheStatistics,
+    CachedFheKeyPair,
+    FheAuditLog,
+    FheAuditEntry,
+    FheAuditLogQuery,
+    HomomorphicOperationParameters,
+    EncryptedFieldStorage,
+    VaultFieldReference
 } from './types';
+import { NoiseEstimateDto, KeyGenerationDto, ReencryptionDto, UpdateVaultFieldDto } from './dto/fhe-encryption.dto';
 import {
     initializeTfheWasm,
     generateFheKeys,
@@ -24,29 +53,99 @@ import {
     decryptValue,
     performHomomorphicAdd,
     performHomomorphicMultiply,
+    performHomomorphicAddScalar,
+    performHomomorphicMultiplyScalar,
+    performHomomorphicCompare,
+    performHomomorphicSelect,
+    encodeScalar,
     bootstrapCiphertext,
     serializeCiphertext,
-    deserializeCiphertext
+    deserializeCiphertext,
+    packValues,
+    unpackValues,
+    withTimeout,
+    mapWithConcurrency,
+    generateRelinearizationKeys,
+    generateGaloisKeys,
+    generateKeySwitchingKey,
+    switchCiphertextKey,
+    computeNoiseLevel,
+    estimateNoiseGrowth,
+    errorMessage,
+    errorCode
 } from './utils';
 import { FHE_CONSTANTS } from './constants';
+import { FheCircuitRegistryService } from './fhe-circuit-registry.service';
+import { FheCache } from './fhe-cache';
+import { FheAuditService } from './fhe-audit.service';
+import { FheMetricsService } from './fhe-metrics.service';
+import { FheStorageError } from './fhe-storage.error';
+import { FheFieldVaultService } from './fhe-field-vault.service';
+import {
+    validateCircuit,
+    calculateCircuitDepth,
+    isGateSupported,
+    refreshesNoise,
+    groupOperationsIntoLevels,
+    countWireConsumers,
+    placeBootstraps
+} from './circuit.utils';
 
 @Injectable()
 export class McpFheFieldEncryptionService {
     private readonly logger = new Logger(McpFheFieldEncryptionService.name);
     private tfheInstance: any;
-    private keyCache: Map<string, FheKeyPair> = new Map();
-    private bootstrappingKeys: Map<string, BootstrappingKey> = new Map();
+    private keyCache = new FheCache<CachedFheKeyPair>({
+        ttl: FHE_CONSTANTS.KEY_CACHE_TTL,
+        maxEntries: FHE_CONSTANTS.KEY_CACHE_MAX_ENTRIES,
+        maxBytes: FHE_CONSTANTS.KEY_CACHE_MAX_BYTES,
+        sizeOf: cached => this.keyMaterialSize(cached),
+        // Scrub the cached private key copy when it leaves the cache
+        onEvict: cached => cached.privateKey.fill(0)
+    });
+    private bootstrappingKeys = new FheCache<BootstrappingKey>({
+        ttl: FHE_CONSTANTS.BOOTSTRAP_KEY_CACHE_TTL,
+        maxEntries: FHE_CONSTANTS.BOOTSTRAP_KEY_CACHE_MAX_ENTRIES,
+        maxBytes: FHE_CONSTANTS.BOOTSTRAP_KEY_CACHE_MAX_BYTES,
+        sizeOf: key => this.bootstrappingKeySize(key)
+    });
     private encryptionContracts: Map<ChainNames, ethers.Contract> = new Map();
+    private integrityKey?: string;
+    // Pending nonce assignment per chain and sending wallet
+    private nonceLocks = new Map<string, Promise<unknown>>();
+    private nextNonces = new Map<string, number>();
 
     constructor(
         private readonly evmUtils: EvmUtils,
         private readonly settingsService: SettingsService,
         private readonly userRepository: UserRepository,
         private readonly kmsService: KmsService,
+        private readonly circuitRegistry: FheCircuitRegistryService,
+        private readonly auditService: FheAuditService,
+        private readonly metricsService: FheMetricsService,
+        private readonly fieldVault: FheFieldVaultService,
     ) {
+        this.assertFheSettings();
         this.initializeFheSystem();
     }
 
+    // Fail at startup rather than on the first encryption or the first pre-tagging decryption
+    private assertFheSettings(): void {
+        const settings = this.settingsService.getSettings().fhe;
+        if (!settings?.integrityKey) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.INTEGRITY_KEY_NOT_CONFIGURED}: `
+                + 'set fhe.integrityKey to the KMS-encrypted metadata MAC key'
+            );
+        }
+        if (settings.acceptUntaggedMetadataUntil === undefined) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.UNTAGGED_METADATA_CUTOFF_NOT_CONFIGURED}: `
+                + 'set fhe.acceptUntaggedMetadataUntil to a timestamp in ms, or 0 to reject untagged metadata'
+            );
+        }
+    }
+
     private async initializeFheSystem(): Promise<void> {
         try {
             this.logger.log('Initializing FHE system with tfhe_wasm...');
@@ -73,6 +172,17 @@ export class McpFheFieldEncryptionService {
     public async encryptField(
         userId: string,
         params: EncryptionParams
+    ): Promise<FheEncryptedData> {
+        return await this.withAudit(
+            { userId, operationType: 'encrypt', fieldName: params.fieldName, scheme: params.scheme },
+            () => this.encryptFieldForUser(userId, params),
+            result => ({ gasUsed: result.gasUsed })
+        );
+    }
+
+    private async encryptFieldForUser(
+        userId: string,
+        params: EncryptionParams
     ): Promise<FheEncryptedData> {
         this.logger.log(`Encrypting field ${params.fieldName} for user ${userId}`);
 
@@ -82,7 +192,8 @@ export class McpFheFieldEncryptionService {
         }
 
         // Get or generate FHE keys for user
-        const keyPair = await this.getOrGenerateKeys(user.walletAddress, params.scheme);
+        const securityLevel = params.securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL;
+        const keyPair = await this.getOrGenerateKeys(user.walletAddress, params.scheme, securityLevel);
         
         // Convert value to appropriate format
         const plaintext = this.prepareValueForEncryption(params.value, params.dataType);
@@ -91,67 +202,407 @@ export class McpFheFieldEncryptionService {
         const encrypted = await this.performFheEncryption(
             plaintext,
             keyPair.publicKey,
-            params.scheme
+            params.scheme,
+            securityLevel,
+            params.compressionEnabled || false
         );
+        const ciphertext = deserializeCiphertext(encrypted);
 
-        // Generate metadata
-        const metadata: CiphertextMetadata = {
+        // Generate metadata, authenticated together with the ciphertext
+        const metadata = await this.signMetadata(encrypted, {
             scheme: params.scheme,
-            securityLevel: params.securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL,
-            noiseLevel: this.calculateNoiseLevel(encrypted),
+            securityLevel,
+            noiseLevel: this.calculateNoiseLevel(ciphertext, params.scheme),
             bootstrappable: params.allowBootstrapping || false,
             timestamp: Date.now(),
-            version: FHE_CONSTANTS.VERSION
-        };
+            version: FHE_CONSTANTS.VERSION,
+            ...(ciphertext.compressionRatio && { compressionRatio: ciphertext.compressionRatio })
+        });
 
         // Store encrypted data on-chain if requested
-        let transactionHash: string | undefined;
-        if (params.storeOnChain) {
-            transactionHash = await this.storeEncryptedOnChain(
-                user.walletAddress,
-                params.fieldName,
-                encrypted,
-                metadata
-            );
-        }
+        const storage = params.storeOnChain
+            ? await this.storeEncryptedOnChains(user.walletAddress, params.fieldName, encrypted, metadata, params.chain)
+            : undefined;
 
-        return {
+        const result: FheEncryptedData = {
             fieldName: params.fieldName,
             encryptedValue: encrypted,
             metadata,
             publicKeyHash: ethers.utils.keccak256(keyPair.publicKey),
-            transactionHash
+            transactionHash: storage?.[0]?.transactionHash,
+            transactionLink: storage?.[0]?.transactionLink,
+            gasUsed: storage?.reduce((total, record) => total + record.gasUsed, 0),
+            storage
         };
+
+        if (params.storeInVault) {
+            const stored = await this.fieldVault.save(userId, user.walletAddress, result);
+            result.vaultVersion = stored.version;
+        }
+
+        return result;
     }
 
     private async performFheEncryption(
         value: Uint8Array,
         publicKey: string,
-        scheme: FheScheme
+        scheme: FheScheme,
+        securityLevel: SecurityLevel,
+        compress: boolean,
+        context?: any
     ): Promise<string> {
         const schemeParams = FHE_CONSTANTS.SCHEME_PARAMS[scheme];
         
-        // Initialize encryption context
-        const context = await this.tfheInstance.createContext({
+        // Initialize encryption context unless the caller already holds one
+        const encryptionContext = context || await this.createEncryptionContext(publicKey, scheme);
+
+        // Encrypt the value
+        const startTime = Date.now();
+        const ciphertext = await encryptValue(
+            this.tfheInstance,
+            encryptionContext,
+            value,
+            schemeParams.noiseStandardDeviation,
+            await this.getCiphertextTagKey()
+        );
+        this.metricsService.record({ scheme, operation: 'encrypt', durationMs: Date.now() - startTime });
+
+        // Serialize ciphertext for storage, tagged with the parameters and key it was produced under
+        return serializeCiphertext({
+            ...ciphertext,
+            scheme,
+            securityLevel,
+            publicKeyHash: ethers.utils.keccak256(publicKey)
+        }, { compress });
+    }
+
+    private async createEncryptionContext(publicKey: string, scheme: FheScheme): Promise<any> {
+        const schemeParams = FHE_CONSTANTS.SCHEME_PARAMS[scheme];
+        return await this.tfheInstance.createContext({
             publicKey,
             parameters: schemeParams,
             modulusBits: schemeParams.modulusBits,
             plaintextModulus: schemeParams.plaintextModulus
         });
+    }
 
-        // Encrypt the value
-        const ciphertext = await encryptValue(
-            this.tfheInstance,
-            context,
-            value,
-            schemeParams.noiseStandardDeviation
+    public async encryptBatch(
+        userId: string,
+        batch: BatchEncryption
+    ): Promise<BatchEncryptionResult> {
+        this.logger.log(`Encrypting batch of ${batch.fields.length} fields for user ${userId}`);
+
+        if (batch.fields.length > FHE_CONSTANTS.MAX_BATCH_SIZE) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.BATCH_SIZE_EXCEEDED);
+        }
+
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
+        }
+
+        // Fields are filled in as their groups complete, so a failed batch can still be audited per field
+        const fields: FheEncryptedData[] = new Array(batch.fields.length);
+        const cancellation = new AbortController();
+        const processing = this.processEncryptionBatch(user.walletAddress, batch, fields, cancellation.signal);
+
+        try {
+            const result = await withTimeout(
+                processing,
+                FHE_CONSTANTS.BATCH_TIMEOUT,
+                FHE_CONSTANTS.ERROR_MESSAGES.BATCH_TIMEOUT
+            );
+
+            for (const [index, field] of result.fields.entries()) {
+                if (batch.fields[index].storeInVault) {
+                    const stored = await this.fieldVault.save(userId, user.walletAddress, field);
+                    field.vaultVersion = stored.version;
+                }
+            }
+
+            for (const field of result.fields) {
+                await this.auditService.record({
+                    userId,
+                    operationType: 'encrypt',
+                    fieldName: field.fieldName,
+                    scheme: batch.commonScheme,
+                    success: true,
+                    gasUsed: field.gasUsed
+                });
+            }
+
+            return result;
+        } catch (error) {
+            // Stop scheduling further groups and reject at once, so BATCH_TIMEOUT bounds the call.
+            // The per-field audit waits for in-flight writes in the background, so fields that
+            // still reach the chain or the vault are recorded as such
+            cancellation.abort();
+            processing
+                .catch(() => undefined)
+                .then(() => this.auditFailedBatch(userId, batch, fields, error));
+            throw error;
+        }
+    }
+
+    private async auditFailedBatch(
+        userId: string,
+        batch: BatchEncryption,
+        fields: FheEncryptedData[],
+        error: unknown
+    ): Promise<void> {
+        for (const [index, field] of batch.fields.entries()) {
+            const completed = fields[index];
+            const succeeded = !!completed && (!field.storeInVault || completed.vaultVersion !== undefined);
+            await this.auditService.record({
+                userId,
+                operationType: 'encrypt',
+                fieldName: field.fieldName,
+                scheme: batch.commonScheme,
+                success: succeeded,
+                gasUsed: completed?.gasUsed,
+                ...(!succeeded && { errorMessage: errorMessage(error) })
+            });
+        }
+    }
+
+    private async processEncryptionBatch(
+        walletAddress: string,
+        batch: BatchEncryption,
+        fields: FheEncryptedData[],
+        signal: AbortSignal
+    ): Promise<BatchEncryptionResult> {
+        const scheme = batch.commonScheme;
+        const slotCount = FHE_CONSTANTS.SIMD_SLOT_COUNT[scheme];
+        const packed = batch.packedEncryption && slotCount > 1;
+
+        // One key fetch and one context per security level for the whole batch
+        const encryptionKeys = new Map<SecurityLevel, Promise<{ keyPair: FheKeyPair; context: any }>>();
+        const getEncryptionKeys = (securityLevel: SecurityLevel) => {
+            if (!encryptionKeys.has(securityLevel)) {
+                encryptionKeys.set(securityLevel, (async () => {
+                    const keyPair = await this.getOrGenerateKeys(walletAddress, scheme, securityLevel);
+                    const context = await this.createEncryptionContext(keyPair.publicKey, scheme);
+                    return { keyPair, context };
+                })());
+            }
+            return encryptionKeys.get(securityLevel)!;
+        };
+
+        const plaintexts = batch.fields.map(field =>
+            this.prepareValueForEncryption(field.value, field.dataType)
         );
+        const groups = packed
+            ? this.groupFieldsForPacking(batch, slotCount)
+            : batch.fields.map((_, index) => [index]);
+
+        const slotMappings: BatchSlotMapping[] = [];
+
+        for (const [ciphertextIndex, group] of groups.entries()) {
+            if (signal.aborted) {
+                throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.BATCH_TIMEOUT);
+            }
+
+            const plaintext = packed
+                ? packValues(group.map(index => plaintexts[index]))
+                : plaintexts[group[0]];
+            const securityLevel = batch.fields[group[0]].securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL;
+            const { keyPair, context } = await getEncryptionKeys(securityLevel);
+            const publicKeyHash = ethers.utils.keccak256(keyPair.publicKey);
+            const compress = batch.compressionEnabled ||
+                group.every(index => batch.fields[index].compressionEnabled);
+
+            const encrypted = await this.performFheEncryption(
+                plaintext,
+                keyPair.publicKey,
+                scheme,
+                securityLevel,
+                compress,
+                context
+            );
+
+            const ciphertext = deserializeCiphertext(encrypted);
+            const noiseLevel = this.calculateNoiseLevel(ciphertext, scheme);
+
+            // A packed ciphertext goes on-chain once, under its own storage key, for every field
+            // in the group that asked for it; each field then stores a reference to it by slot
+            const storedIndexes = group.filter(index => batch.fields[index].storeOnChain);
+            const storageFieldName = packed && storedIndexes.length
+                ? this.packedStorageFieldName(encrypted)
+                : undefined;
+            const packedStorage = storageFieldName
+                ? await this.storeEncryptedOnChains(
+                    walletAddress,
+                    storageFieldName,
+                    encrypted,
+                    await this.signMetadata(encrypted, {
+                        scheme,
+                        securityLevel,
+                        noiseLevel,
+                        bootstrappable: batch.fields[group[0]].allowBootstrapping || false,
+                        timestamp: Date.now(),
+                        version: FHE_CONSTANTS.VERSION,
+                        packedSlots: group.length,
+                        ...(ciphertext.compressionRatio && { compressionRatio: ciphertext.compressionRatio })
+                    }),
+                    [...new Set(storedIndexes.flatMap(index => this.targetChains(batch.fields[index].chain)))]
+                )
+                : undefined;
+
+            for (const [slot, index] of group.entries()) {
+                const field = batch.fields[index];
+                const metadata = await this.signMetadata(encrypted, {
+                    scheme,
+                    securityLevel,
+                    noiseLevel,
+                    bootstrappable: field.allowBootstrapping || false,
+                    timestamp: Date.now(),
+                    version: FHE_CONSTANTS.VERSION,
+                    ...(packed && { slot, packedSlots: group.length }),
+                    ...(storageFieldName && field.storeOnChain && { storageFieldName }),
+                    ...(ciphertext.compressionRatio && { compressionRatio: ciphertext.compressionRatio })
+                });
+
+                let storage: FheChainStorageRecord[] | undefined;
+                if (field.storeOnChain && packedStorage) {
+                    const fieldChains = this.targetChains(field.chain);
+                    storage = [
+                        ...packedStorage.filter(record => fieldChains.includes(record.chain)),
+                        ...await this.storePackedFieldReference(walletAddress, field.fieldName, metadata, fieldChains)
+                    ];
+                } else if (field.storeOnChain) {
+                    storage = await this.storeEncryptedOnChains(
+                        walletAddress,
+                        field.fieldName,
+                        encrypted,
+                        metadata,
+                        field.chain
+                    );
+                }
+
+                // Gas for a shared packed write is attributed to the first field that stored it;
+                // each field pays for its own reference
+                const attributedStorage = packedStorage && index !== storedIndexes[0]
+                    ? storage?.filter(record => !packedStorage.includes(record))
+                    : storage;
+
+                fields[index] = {
+                    fieldName: field.fieldName,
+                    encryptedValue: encrypted,
+                    metadata,
+                    publicKeyHash,
+                    transactionHash: storage?.[0]?.transactionHash,
+                    transactionLink: storage?.[0]?.transactionLink,
+                    gasUsed: attributedStorage?.reduce((total, record) => total + record.gasUsed, 0),
+                    storage,
+                    ...(storageFieldName && field.storeOnChain && { storageFieldName })
+                };
+                slotMappings.push({ fieldName: field.fieldName, ciphertextIndex, slot });
+            }
+        }
+
+        return {
+            fields,
+            slotMappings,
+            ciphertextCount: groups.length
+        };
+    }
+
+    private groupFieldsForPacking(batch: BatchEncryption, slotCount: number): number[][] {
+        // Only fields sharing security level and bootstrapping policy can share a ciphertext,
+        // since both are recorded once per ciphertext in its metadata
+        const compatible = new Map<string, number[]>();
+
+        batch.fields.forEach((field, index) => {
+            const securityLevel = field.securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL;
+            const key = `${securityLevel}-${field.allowBootstrapping || false}`;
+            if (!compatible.has(key)) {
+                compatible.set(key, []);
+            }
+            compatible.get(key)!.push(index);
+        });
+
+        const groups: number[][] = [];
+        for (const indices of compatible.values()) {
+            for (let i = 0; i < indices.length; i += slotCount) {
+                groups.push(indices.slice(i, i + slotCount));
+            }
+        }
 
-        // Serialize ciphertext for storage
-        return serializeCiphertext(ciphertext);
+        return groups;
     }
 
     public async decryptField(
+        userId: string,
+        params: DecryptionParams | VaultFieldReference
+    ): Promise<any> {
+        if ('encryptedValue' in params) {
+            return await this.withAudit(
+                { userId, operationType: 'decrypt', fieldName: params.fieldName, scheme: params.metadata.scheme },
+                () => this.decryptFieldForUser(userId, params)
+            );
+        }
+
+        // Field references resolve against the vault, counting each successful read. Audited under
+        // the default scheme until the record loads, so reads of unknown fields are recorded too
+        const audit: FheAuditEntry = {
+            userId,
+            operationType: 'decrypt',
+            fieldName: params.fieldName,
+            scheme: FHE_CONSTANTS.DEFAULT_SCHEME
+        };
+        return await this.withAudit(audit, async () => {
+            const stored = await this.fieldVault.get(userId, params.fieldName, params.version);
+            audit.scheme = stored.metadata.scheme;
+
+            const decrypted = await this.decryptFieldForUser(userId, {
+                fieldName: stored.fieldName,
+                encryptedValue: stored.encryptedData,
+                metadata: stored.metadata,
+                originalDataType: params.originalDataType
+            });
+            await this.fieldVault.recordAccess(stored);
+            return decrypted;
+        });
+    }
+
+    public async listVaultFields(userId: string): Promise<EncryptedFieldStorage[]> {
+        return await this.fieldVault.list(userId);
+    }
+
+    public async getVaultField(
+        userId: string,
+        fieldName: string,
+        version?: number
+    ): Promise<EncryptedFieldStorage> {
+        return await this.fieldVault.get(userId, fieldName, version);
+    }
+
+    public async getVaultFieldHistory(userId: string, fieldName: string): Promise<EncryptedFieldStorage[]> {
+        return await this.fieldVault.history(userId, fieldName);
+    }
+
+    public async updateVaultField(
+        userId: string,
+        params: UpdateVaultFieldDto
+    ): Promise<FheEncryptedData> {
+        // New versions keep the scheme and parameters of the current version
+        const current = await this.fieldVault.get(userId, params.fieldName);
+
+        return await this.encryptField(userId, {
+            ...params,
+            scheme: current.metadata.scheme,
+            securityLevel: current.metadata.securityLevel,
+            allowBootstrapping: current.metadata.bootstrappable,
+            compressionEnabled: current.metadata.compressionRatio !== undefined,
+            storeInVault: true
+        });
+    }
+
+    public async deleteVaultField(userId: string, fieldName: string): Promise<void> {
+        await this.fieldVault.delete(userId, fieldName);
+    }
+
+    private async decryptFieldForUser(
         userId: string,
         params: DecryptionParams
     ): Promise<any> {
@@ -162,26 +613,234 @@ export class McpFheFieldEncryptionService {
             throw new Error('User wallet not found');
         }
 
+        // Caller-supplied metadata picks the key set, so it is only trusted once its tag checks out
+        await this.verifyMetadata(params.encryptedValue, params.metadata);
+
         // Retrieve private key from secure storage
-        const keyPair = await this.retrieveUserKeys(user.walletAddress);
+        const keyPair = await this.retrieveUserKeys(
+            user.walletAddress,
+            params.metadata.scheme,
+            params.metadata.securityLevel
+        );
         if (!keyPair) {
             throw new Error('FHE keys not found for user');
         }
 
-        // Deserialize ciphertext
-        const ciphertext = deserializeCiphertext(params.encryptedValue);
-        
-        // Perform FHE decryption
-        const decrypted = await this.performFheDecryption(
-            ciphertext,
-            keyPair.privateKey,
-            params.metadata.scheme
+        return await this.decryptWithKeys(params, keyPair);
+    }
+
+    public async decryptBatch(
+        userId: string,
+        batch: BatchDecryption
+    ): Promise<BatchDecryptionResult[]> {
+        this.logger.log(`Decrypting batch of ${batch.fields.length} fields for user ${userId}`);
+
+        if (batch.fields.length > FHE_CONSTANTS.MAX_BATCH_SIZE) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.BATCH_SIZE_EXCEEDED);
+        }
+
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
+        }
+
+        // Keys are loaded once per scheme and security level for the whole batch
+        const keySets = new Map<string, Promise<FheKeyPair | null>>();
+        const getKeys = async (metadata: CiphertextMetadata): Promise<FheKeyPair> => {
+            const keySetId = `${metadata.scheme}-${metadata.securityLevel}`;
+            if (!keySets.has(keySetId)) {
+                keySets.set(keySetId, this.retrieveUserKeys(
+                    user.walletAddress,
+                    metadata.scheme,
+                    metadata.securityLevel
+                ));
+            }
+            const keyPair = await keySets.get(keySetId)!;
+            if (!keyPair) {
+                throw new Error('FHE keys not found for user');
+            }
+            return keyPair;
+        };
+
+        // Packed ciphertexts shared by several fields are only decrypted once
+        const decryptedCiphertexts = new Map<string, Promise<Uint8Array>>();
+        const concurrency = batch.parallelProcessing ? FHE_CONSTANTS.THREAD_COUNT : 1;
+
+        const decryptions = mapWithConcurrency(batch.fields, concurrency, async field => {
+            try {
+                const value = await this.withAudit(
+                    { userId, operationType: 'decrypt', fieldName: field.fieldName, scheme: field.metadata.scheme },
+                    async () => {
+                        // Verify before the metadata is used to load (or migrate) a key set
+                        await this.verifyMetadata(field.encryptedValue, field.metadata);
+                        return await this.decryptWithKeys(field, await getKeys(field.metadata), decryptedCiphertexts);
+                    }
+                );
+                return { fieldName: field.fieldName, success: true, value };
+            } catch (error) {
+                if (batch.errorHandling !== 'skip') {
+                    throw new Error(
+                        `${FHE_CONSTANTS.ERROR_MESSAGES.DECRYPTION_FAILED} for field ${field.fieldName}: ${errorMessage(error)}`
+                    );
+                }
+                return { fieldName: field.fieldName, success: false, error: errorMessage(error) };
+            }
+        });
+
+        return await withTimeout(
+            decryptions,
+            FHE_CONSTANTS.BATCH_TIMEOUT,
+            FHE_CONSTANTS.ERROR_MESSAGES.BATCH_TIMEOUT
         );
+    }
+
+    private async decryptWithKeys(
+        params: DecryptionParams,
+        keyPair: FheKeyPair,
+        decryptedCiphertexts?: Map<string, Promise<Uint8Array>>
+    ): Promise<any> {
+        // Callers verify the metadata before loading keys for it
+        let decryption = decryptedCiphertexts?.get(params.encryptedValue);
+
+        if (!decryption) {
+            // Deserialize ciphertext and perform FHE decryption
+            const ciphertext = deserializeCiphertext(params.encryptedValue);
+            this.assertCiphertextParameters(ciphertext, params.metadata.scheme, params.metadata.securityLevel);
+            this.assertCiphertextKey(ciphertext, keyPair.publicKey);
+            decryption = this.performFheDecryption(
+                ciphertext,
+                keyPair.privateKey,
+                params.metadata.scheme
+            );
+            decryptedCiphertexts?.set(params.encryptedValue, decryption);
+        }
+
+        const decrypted = this.extractSlot(await decryption, params.metadata);
 
         // Convert back to original data type
         return this.convertFromPlaintext(decrypted, params.originalDataType);
     }
 
+    private async signMetadata(
+        encryptedValue: string,
+        metadata: CiphertextMetadata
+    ): Promise<CiphertextMetadata> {
+        return {
+            ...metadata,
+            integrityTag: await this.computeIntegrityTag(encryptedValue, metadata)
+        };
+    }
+
+    private async verifyMetadata(encryptedValue: string, metadata: CiphertextMetadata): Promise<void> {
+        if (!metadata.integrityTag) {
+            // Metadata issued before tagging is only accepted until the configured cut-off, and
+            // then only when it agrees with the ciphertext header
+            const acceptUntil = this.settingsService.getSettings().fhe?.acceptUntaggedMetadataUntil;
+            if (!acceptUntil || Date.now() >= acceptUntil) {
+                throw new Error(
+                    `${FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT}: ${FHE_CONSTANTS.ERROR_MESSAGES.INTEGRITY_TAG_MISSING}`
+                );
+            }
+
+            this.logger.warn('Accepting untagged ciphertext metadata under the legacy cut-off');
+            try {
+                const ciphertext = deserializeCiphertext(encryptedValue);
+                this.assertCiphertextParameters(ciphertext, metadata.scheme, metadata.securityLevel);
+            } catch (error) {
+                throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT}: ${errorMessage(error)}`);
+            }
+            return;
+        }
+
+        const expected = ethers.utils.arrayify(await this.computeIntegrityTag(encryptedValue, metadata));
+        const actual = ethers.utils.isHexString(metadata.integrityTag, expected.length)
+            ? ethers.utils.arrayify(metadata.integrityTag)
+            : new Uint8Array(expected.length);
+
+        if (!timingSafeEqual(actual, expected)) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+        }
+    }
+
+    private async computeIntegrityTag(encryptedValue: string, metadata: CiphertextMetadata): Promise<string> {
+        const fields: Partial<CiphertextMetadata> = { ...metadata };
+        delete fields.integrityTag;
+
+        // Sorted keys make the MAC independent of property order
+        const canonical = JSON.stringify(fields, Object.keys(fields).sort());
+        const message = ethers.utils.concat([
+            ethers.utils.keccak256(ethers.utils.toUtf8Bytes(canonical)),
+            ethers.utils.keccak256(ethers.utils.toUtf8Bytes(encryptedValue))
+        ]);
+
+        return ethers.utils.computeHmac(
+            ethers.utils.SupportedAlgorithm.sha256,
+            ethers.utils.toUtf8Bytes(await this.getIntegrityKey()),
+            message
+        );
+    }
+
+    private async getIntegrityKey(): Promise<string> {
+        if (!this.integrityKey) {
+            const encryptedKey = this.settingsService.getSettings().fhe?.integrityKey;
+            if (!encryptedKey) {
+                throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.INTEGRITY_KEY_NOT_CONFIGURED);
+            }
+            this.integrityKey = await this.kmsService.decryptSecret(encryptedKey);
+        }
+
+        return this.integrityKey;
+    }
+
+    // Ciphertext tags use their own key derived from the integrity key, so a tag of one kind
+    // can never be replayed as the other
+    private async getCiphertextTagKey(): Promise<Uint8Array> {
+        return ethers.utils.arrayify(ethers.utils.computeHmac(
+            ethers.utils.SupportedAlgorithm.sha256,
+            ethers.utils.toUtf8Bytes(await this.getIntegrityKey()),
+            ethers.utils.toUtf8Bytes('fhe-ciphertext-tag')
+        ));
+    }
+
+    // Metadata for ciphertexts derived from others (computation, circuits, key switching),
+    // signed so it can be handed straight back to decryptField
+    private async describeCiphertext(
+        encryptedValue: string,
+        ciphertext: any,
+        scheme: FheScheme,
+        securityLevel: SecurityLevel
+    ): Promise<CiphertextMetadata> {
+        return await this.signMetadata(encryptedValue, {
+            scheme,
+            securityLevel,
+            noiseLevel: this.calculateNoiseLevel(ciphertext, scheme),
+            bootstrappable: isGateSupported('bootstrap', scheme),
+            timestamp: Date.now(),
+            version: FHE_CONSTANTS.VERSION,
+            depth: ciphertext.depth,
+            size: ciphertext.size,
+            ...(ciphertext.compressionRatio && { compressionRatio: ciphertext.compressionRatio })
+        });
+    }
+
+    private extractSlot(plaintext: Uint8Array, metadata: CiphertextMetadata): Uint8Array {
+        if (metadata.slot === undefined) {
+            // A shared packed ciphertext read by its storage key names no field to extract
+            if (metadata.packedSlots !== undefined) {
+                throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.PACKED_SLOT_MISSING);
+            }
+            return plaintext;
+        }
+
+        // Packed batch ciphertexts hold one length-prefixed value per slot
+        const slots = unpackValues(plaintext);
+        if (metadata.slot >= slots.length) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+        }
+
+        return slots[metadata.slot];
+    }
+
     private async performFheDecryption(
         ciphertext: any,
         privateKey: string,
@@ -196,12 +855,26 @@ export class McpFheFieldEncryptionService {
         });
 
         // Decrypt the ciphertext
-        return await decryptValue(this.tfheInstance, context, ciphertext);
+        const startTime = Date.now();
+        const decrypted = await decryptValue(this.tfheInstance, context, ciphertext, await this.getCiphertextTagKey());
+        this.metricsService.record({ scheme, operation: 'decrypt', durationMs: Date.now() - startTime });
+
+        return decrypted;
     }
 
     public async performHomomorphicOperation(
         userId: string,
         operation: HomomorphicOperation
+    ): Promise<FheComputationResult> {
+        return await this.withAudit(
+            { userId, operationType: 'compute', operation: operation.type, scheme: operation.scheme },
+            () => this.computeForUser(userId, operation)
+        );
+    }
+
+    private async computeForUser(
+        userId: string,
+        operation: HomomorphicOperation
     ): Promise<FheComputationResult> {
         this.logger.log(`Performing ${operation.type} operation for user ${userId}`);
 
@@ -210,68 +883,130 @@ export class McpFheFieldEncryptionService {
             throw new Error('User wallet not found');
         }
 
+        if (!isGateSupported(operation.type, operation.scheme)) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.UNSUPPORTED_GATE}: ${operation.type} under ${operation.scheme}`
+            );
+        }
+
         // Deserialize input ciphertexts
         const inputs = operation.inputs.map(input => deserializeCiphertext(input));
+        const securityLevel = operation.securityLevel
+            || inputs[0]?.securityLevel
+            || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL;
+        inputs.forEach(input => this.assertCiphertextParameters(input, operation.scheme, securityLevel));
         
         // Get evaluation key
-        const evalKey = await this.getEvaluationKey(user.walletAddress, operation.scheme);
+        const evalKey = await this.getEvaluationKey(user.walletAddress, operation.scheme, securityLevel, inputs);
+        const context = await this.createEvaluationContext(evalKey, operation.scheme);
         
-        let result: any;
         const startTime = Date.now();
-
-        switch (operation.type) {
-            case 'add':
-                result = await this.performAddition(inputs, evalKey, operation.scheme);
-                break;
-            case 'multiply':
-                result = await this.performMultiplication(inputs, evalKey, operation.scheme);
-                break;
-            case 'subtract':
-                result = await this.performSubtraction(inputs, evalKey, operation.scheme);
-                break;
-            case 'negate':
-                result = await this.performNegation(inputs[0], evalKey, operation.scheme);
-                break;
-            case 'rotate':
-                result = await this.performRotation(inputs[0], operation.rotationAmount || 1, evalKey, operation.scheme);
-                break;
-            case 'bootstrap':
-                result = await this.performBootstrapping(inputs[0], evalKey, operation.scheme);
-                break;
-            default:
-                throw new Error(`Unsupported operation: ${operation.type}`);
-        }
+        let result = await this.applyOperation(
+            operation.type,
+            inputs,
+            context,
+            evalKey,
+            operation.scheme,
+            { rotationAmount: operation.rotationAmount, constant: operation.scalar }
+        );
 
         const computationTime = Date.now() - startTime;
         
         // Check if bootstrapping is needed
-        const noiseLevel = this.calculateNoiseLevel(result);
+        const noiseLevel = this.calculateNoiseLevel(result, operation.scheme);
         const needsBootstrapping = noiseLevel > FHE_CONSTANTS.MAX_NOISE_LEVEL;
         
         if (needsBootstrapping && operation.autoBootstrap) {
             this.logger.log('Noise level exceeded, performing automatic bootstrapping...');
-            result = await this.performBootstrapping(result, evalKey, operation.scheme);
+            result = await this.applyOperation('bootstrap', [result], context, evalKey, operation.scheme);
         }
 
+        const serialized = serializeCiphertext(result, {
+            compress: inputs.some(input => input.compressionRatio !== undefined)
+        });
+
         return {
-            result: serializeCiphertext(result),
+            result: serialized,
+            metadata: await this.describeCiphertext(serialized, result, operation.scheme, securityLevel),
             operationType: operation.type,
             computationTime,
-            noiseLevel: this.calculateNoiseLevel(result),
+            noiseLevel: this.calculateNoiseLevel(result, operation.scheme),
             bootstrapped: needsBootstrapping && operation.autoBootstrap
         };
     }
 
-    private async performAddition(
+    private async applyOperation(
+        type: HomomorphicOperation['type'],
         inputs: any[],
+        context: any,
         evalKey: string,
-        scheme: FheScheme
+        scheme: FheScheme,
+        parameters: HomomorphicOperationParameters = {}
+    ): Promise<any> {
+        const startTime = Date.now();
+        const result = await this.dispatchOperation(type, inputs, context, evalKey, scheme, parameters);
+
+        this.metricsService.record({
+            scheme,
+            operation: type,
+            durationMs: Date.now() - startTime,
+            noiseGrowth: result.noise - Math.max(...inputs.map(input => input.noise)),
+            bootstrapped: refreshesNoise(type)
+        });
+
+        return result;
+    }
+
+    private async dispatchOperation(
+        type: HomomorphicOperation['type'],
+        inputs: any[],
+        context: any,
+        evalKey: string,
+        scheme: FheScheme,
+        parameters: HomomorphicOperationParameters
+    ): Promise<any> {
+        switch (type) {
+            case 'add':
+                return await this.performAddition(inputs, context);
+            case 'multiply':
+                return await this.performMultiplication(inputs, context);
+            case 'subtract':
+                return await this.performSubtraction(inputs, context);
+            case 'negate':
+                return await this.performNegation(inputs[0], context);
+            case 'rotate':
+                return await this.performRotation(inputs[0], parameters.rotationAmount || 1, context);
+            case 'bootstrap':
+                return await this.performBootstrapping(inputs[0], evalKey, scheme);
+            case 'addScalar':
+            case 'multiplyScalar':
+            case 'subtractScalar':
+                return await this.performScalarOperation(type, inputs, parameters.constant, scheme, context);
+            case 'eq':
+            case 'ne':
+            case 'lt':
+            case 'lte':
+            case 'gt':
+            case 'gte':
+            case 'min':
+            case 'max':
+                return await this.performComparison(type, inputs, evalKey, scheme);
+            case 'select':
+                return await this.performSelect(inputs, evalKey, scheme);
+            default:
+                throw new Error(`Unsupported operation: ${type}`);
+        }
+    }
+
+    private async performAddition(
+        inputs: any[],
+        context: any
     ): Promise<any> {
         if (inputs.length < 2) {
             throw new Error('Addition requires at least 2 inputs');
         }
+        this.assertSameKey(inputs);
 
-        const context = await this.createEvaluationContext(evalKey, scheme);
         let result = inputs[0];
         
         for (let i = 1; i < inputs.length; i++) {
@@ -288,14 +1023,13 @@ export class McpFheFieldEncryptionService {
 
     private async performMultiplication(
         inputs: any[],
-        evalKey: string,
-        scheme: FheScheme
+        context: any
     ): Promise<any> {
         if (inputs.length < 2) {
             throw new Error('Multiplication requires at least 2 inputs');
         }
+        this.assertSameKey(inputs);
 
-        const context = await this.createEvaluationContext(evalKey, scheme);
         let result = inputs[0];
         
         for (let i = 1; i < inputs.length; i++) {
@@ -317,15 +1051,13 @@ export class McpFheFieldEncryptionService {
 
     private async performSubtraction(
         inputs: any[],
-        evalKey: string,
-        scheme: FheScheme
+        context: any
     ): Promise<any> {
         if (inputs.length !== 2) {
             throw new Error('Subtraction requires exactly 2 inputs');
         }
+        this.assertSameKey(inputs);
 
-        const context = await this.createEvaluationContext(evalKey, scheme);
-        
         // Negate second input and add
         const negated = await this.tfheInstance.negate(context, inputs[1]);
         return await performHomomorphicAdd(
@@ -336,22 +1068,69 @@ export class McpFheFieldEncryptionService {
         );
     }
 
-    private async performNegation(
-        input: any,
-        evalKey: string,
-        scheme: FheScheme
+    private async performScalarOperation(
+        type: 'addScalar' | 'multiplyScalar' | 'subtractScalar',
+        inputs: any[],
+        scalar: number | undefined,
+        scheme: FheScheme,
+        context: any
+    ): Promise<any> {
+        if (inputs.length !== 1) {
+            throw new Error(`${type} requires exactly 1 input`);
+        }
+        if (scalar === undefined) {
+            throw new Error(`${type} requires a scalar operand`);
+        }
+
+        // Subtracting a plaintext is adding its negation, encoded the same way
+        const encoded = encodeScalar(type === 'subtractScalar' ? -scalar : scalar, scheme);
+
+        return type === 'multiplyScalar'
+            ? await performHomomorphicMultiplyScalar(this.tfheInstance, context, inputs[0], encoded, scheme)
+            : await performHomomorphicAddScalar(this.tfheInstance, context, inputs[0], encoded);
+    }
+
+    private async performComparison(
+        comparison: 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte' | 'min' | 'max',
+        inputs: any[],
+        evalKey: string,
+        scheme: FheScheme
+    ): Promise<any> {
+        if (inputs.length !== 2) {
+            throw new Error(`${comparison} requires exactly 2 inputs`);
+        }
+        this.assertSameKey(inputs);
+
+        const bootstrappingKey = await this.getBootstrappingKey(evalKey, scheme);
+        return await performHomomorphicCompare(this.tfheInstance, inputs[0], inputs[1], comparison, bootstrappingKey);
+    }
+
+    private async performSelect(
+        inputs: any[],
+        evalKey: string,
+        scheme: FheScheme
+    ): Promise<any> {
+        if (inputs.length !== 3) {
+            throw new Error('Select requires exactly 3 inputs: condition, then value, else value');
+        }
+        this.assertSameKey(inputs);
+
+        const bootstrappingKey = await this.getBootstrappingKey(evalKey, scheme);
+        return await performHomomorphicSelect(this.tfheInstance, inputs[0], inputs[1], inputs[2], bootstrappingKey);
+    }
+
+    private async performNegation(
+        input: any,
+        context: any
     ): Promise<any> {
-        const context = await this.createEvaluationContext(evalKey, scheme);
         return await this.tfheInstance.negate(context, input);
     }
 
     private async performRotation(
         input: any,
         rotationAmount: number,
-        evalKey: string,
-        scheme: FheScheme
+        context: any
     ): Promise<any> {
-        const context = await this.createEvaluationContext(evalKey, scheme);
         return await this.tfheInstance.rotate(context, input, rotationAmount);
     }
 
@@ -370,37 +1149,359 @@ export class McpFheFieldEncryptionService {
 
     private async getOrGenerateKeys(
         walletAddress: string,
-        scheme: FheScheme
+        scheme: FheScheme,
+        securityLevel: SecurityLevel
     ): Promise<FheKeyPair> {
-        const cacheKey = `${walletAddress}-${scheme}`;
+        const cacheKey = this.keySetId(walletAddress, scheme, securityLevel);
         
-        if (this.keyCache.has(cacheKey)) {
-            return this.keyCache.get(cacheKey)!;
+        const cachedKeys = this.getCachedKeys(cacheKey);
+        if (cachedKeys) {
+            return cachedKeys;
         }
 
         // Check if keys exist in database
-        const existingKeys = await this.retrieveUserKeys(walletAddress);
+        const existingKeys = await this.retrieveUserKeys(walletAddress, scheme, securityLevel);
         if (existingKeys) {
-            this.keyCache.set(cacheKey, existingKeys);
+            this.cacheKeys(cacheKey, existingKeys);
             return existingKeys;
         }
 
         // Generate new keys
-        const keyPair = await this.generateNewKeys(scheme);
+        const keyPair = await this.generateNewKeys(scheme, securityLevel);
         
         // Store encrypted keys using KMS
         await this.storeUserKeys(walletAddress, keyPair);
         
-        this.keyCache.set(cacheKey, keyPair);
+        this.cacheKeys(cacheKey, keyPair);
         return keyPair;
     }
 
-    private async generateNewKeys(scheme: FheScheme): Promise<FheKeyPair> {
+    public async generateKeys(
+        userId: string,
+        params: KeyGenerationDto
+    ): Promise<FheKeyGenerationResult> {
+        this.logger.log(`Generating ${params.scheme} key set for user ${userId}`);
+
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
+        }
+
+        const securityLevel = params.securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL;
+
+        // Provisioning never replaces a live key set; that is what rotation is for
+        const existingKeys = await this.retrieveUserKeys(user.walletAddress, params.scheme, securityLevel);
+        if (existingKeys) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.KEYS_ALREADY_EXIST);
+        }
+
+        const slotCount = FHE_CONSTANTS.SIMD_SLOT_COUNT[params.scheme];
+
+        if (params.generateGaloisKeys && slotCount <= 1) {
+            throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.UNSUPPORTED_KEY_TYPE}: galois under ${params.scheme}`);
+        }
+        if (params.generateBootstrappingKeys && !isGateSupported('bootstrap', params.scheme)) {
+            throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.UNSUPPORTED_KEY_TYPE}: bootstrapping under ${params.scheme}`);
+        }
+
+        const keyPair = await this.generateNewKeys(params.scheme, securityLevel);
+        keyPair.relinKeys = await generateRelinearizationKeys(this.tfheInstance, {
+            scheme: params.scheme,
+            securityLevel
+        });
+
+        if (params.generateGaloisKeys) {
+            keyPair.galoisKeys = await generateGaloisKeys(this.tfheInstance, {
+                scheme: params.scheme,
+                securityLevel,
+                slotCount
+            });
+        }
+
+        if (params.generateBootstrappingKeys) {
+            keyPair.bootstrappingKey = await this.getBootstrappingKey(keyPair.evaluationKey, params.scheme);
+        }
+
+        await this.storeUserKeys(user.walletAddress, keyPair);
+        this.cacheKeys(this.keySetId(user.walletAddress, params.scheme, securityLevel), keyPair);
+
+        return {
+            scheme: params.scheme,
+            securityLevel,
+            generatedAt: keyPair.generatedAt,
+            keys: this.describeKeys(keyPair)
+        };
+    }
+
+    public async rotateKeys(
+        userId: string,
+        scheme: FheScheme,
+        encryptedValues: string[] = [],
+        securityLevel: SecurityLevel = FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL
+    ): Promise<FheKeyRotationResult> {
+        this.logger.log(`Rotating ${scheme} keys for user ${userId}`);
+
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
+        }
+
+        const oldKeys = await this.retrieveUserKeys(user.walletAddress, scheme, securityLevel);
+        if (!oldKeys) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.KEY_NOT_FOUND);
+        }
+        const previousPublicKeyHash = ethers.utils.keccak256(oldKeys.publicKey);
+
+        // Validate every input before anything is generated or persisted
+        const ciphertexts = encryptedValues.map(encryptedValue => {
+            const ciphertext = deserializeCiphertext(encryptedValue);
+            this.assertCiphertextParameters(ciphertext, scheme, securityLevel);
+            this.assertCiphertextKey(ciphertext, oldKeys.publicKey);
+            return ciphertext;
+        });
+        const vaultFields = (await this.fieldVault.list(userId)).filter(record =>
+            record.metadata.scheme === scheme
+            && record.metadata.securityLevel === securityLevel
+            && record.publicKeyHash === previousPublicKeyHash
+        );
+
+        // New key set with the same parameters and optional key types as the old one
+        const newKeys = await this.generateNewKeys(scheme, securityLevel);
+        if (oldKeys.relinKeys) {
+            newKeys.relinKeys = await generateRelinearizationKeys(this.tfheInstance, { scheme, securityLevel });
+        }
+        if (oldKeys.galoisKeys) {
+            newKeys.galoisKeys = await generateGaloisKeys(this.tfheInstance, {
+                scheme,
+                securityLevel,
+                slotCount: FHE_CONSTANTS.SIMD_SLOT_COUNT[scheme]
+            });
+        }
+        if (oldKeys.bootstrappingKey) {
+            newKeys.bootstrappingKey = await this.getBootstrappingKey(newKeys.evaluationKey, scheme);
+        }
+
+        // Key-switching key lets ciphertexts move to the new key without exposing plaintext
+        const keySwitchingKey = generateKeySwitchingKey(oldKeys.privateKey, newKeys.privateKey);
+        const publicKeyHash = ethers.utils.keccak256(newKeys.publicKey);
+
+        // Switch everything in memory first so a failure leaves the old key set active
+        const reencryptedValues: string[] = [];
+        for (const ciphertext of ciphertexts) {
+            reencryptedValues.push(await this.applyKeySwitch(ciphertext, keySwitchingKey, publicKeyHash));
+        }
+        const reencryptedMetadata = await Promise.all(reencryptedValues.map(encryptedValue =>
+            this.describeCiphertext(encryptedValue, deserializeCiphertext(encryptedValue), scheme, securityLevel)
+        ));
+
+        const encryptedKeySwitchingKey = await this.kmsService.encryptSecret(keySwitchingKey);
+
+        // The new key set lands first so a switching key never points at a set that was not saved;
+        // if the switching key cannot be stored the new set is retired again and the old one stays active
+        await this.storeUserKeys(user.walletAddress, newKeys);
+        try {
+            await this.userRepository.storeFheKeySwitchingKey({
+                walletAddress: user.walletAddress,
+                scheme,
+                securityLevel,
+                fromPublicKeyHash: previousPublicKeyHash,
+                toPublicKeyHash: publicKeyHash,
+                encryptedKey: encryptedKeySwitchingKey,
+                createdAt: newKeys.generatedAt
+            });
+        } catch (error) {
+            await this.userRepository.retireFheKeys(user.walletAddress, scheme, securityLevel, newKeys.generatedAt);
+            throw error;
+        }
+        await this.userRepository.retireFheKeys(user.walletAddress, scheme, securityLevel, oldKeys.generatedAt);
+
+        this.cacheKeys(this.keySetId(user.walletAddress, scheme, securityLevel), newKeys);
+        this.bootstrappingKeys.delete(this.bootstrappingKeyId(oldKeys.evaluationKey, scheme));
+
+        const { reencrypted, failed } = await this.reencryptVaultFields(
+            userId,
+            user.walletAddress,
+            vaultFields,
+            keySwitchingKey,
+            publicKeyHash
+        );
+
+        return {
+            scheme,
+            previousPublicKeyHash,
+            publicKeyHash,
+            rotatedAt: newKeys.generatedAt,
+            nextRotationDue: newKeys.generatedAt + FHE_CONSTANTS.KEY_ROTATION_INTERVAL,
+            reencryptedValues,
+            reencryptedMetadata,
+            reencryptedVaultFields: reencrypted,
+            failedVaultFields: failed
+        };
+    }
+
+    // Moves vault fields, and any on-chain copies they were stored with, to the new key.
+    // Packed fields share a ciphertext, so each distinct ciphertext is switched and stored once.
+    private async reencryptVaultFields(
+        userId: string,
+        walletAddress: string,
+        records: EncryptedFieldStorage[],
+        keySwitchingKey: string,
+        publicKeyHash: string
+    ): Promise<{ reencrypted: string[]; failed: string[] }> {
+        const switched = new Map<string, string>();
+        const restored = new Map<string, FheChainStorageRecord[]>();
+        const reencrypted: string[] = [];
+        const failed: string[] = [];
+
+        for (const record of records) {
+            try {
+                if (!switched.has(record.encryptedData)) {
+                    const ciphertext = deserializeCiphertext(record.encryptedData);
+                    switched.set(record.encryptedData, await this.applyKeySwitch(ciphertext, keySwitchingKey, publicKeyHash));
+                }
+                const encryptedValue = switched.get(record.encryptedData)!;
+                // Key switching adds noise, so the level is recomputed from the switched ciphertext
+                const metadata = await this.signMetadata(encryptedValue, {
+                    ...record.metadata,
+                    noiseLevel: this.calculateNoiseLevel(deserializeCiphertext(encryptedValue), record.metadata.scheme),
+                    timestamp: Date.now()
+                });
+
+                let storage: FheChainStorageRecord[] | undefined;
+                if (record.storage?.length) {
+                    const chains = this.targetChains(record.storage.map(stored => stored.chain));
+                    const storageFieldName = record.storageFieldName || record.fieldName;
+                    const storageKey = `${storageFieldName}:${encryptedValue}`;
+                    if (!restored.has(storageKey)) {
+                        restored.set(storageKey, await this.storeEncryptedOnChains(
+                            walletAddress,
+                            storageFieldName,
+                            encryptedValue,
+                            metadata,
+                            chains
+                        ));
+                    }
+                    // Packed fields also re-point their reference, whose metadata is signed over the new ciphertext
+                    storage = record.storageFieldName
+                        ? [
+                            ...restored.get(storageKey)!,
+                            ...await this.storePackedFieldReference(walletAddress, record.fieldName, metadata, chains)
+                        ]
+                        : restored.get(storageKey);
+                }
+
+                await this.fieldVault.save(userId, walletAddress, {
+                    fieldName: record.fieldName,
+                    encryptedValue,
+                    metadata,
+                    publicKeyHash,
+                    storage,
+                    storageFieldName: record.storageFieldName
+                });
+                reencrypted.push(record.fieldName);
+            } catch (error) {
+                this.logger.error(`Failed to re-encrypt vault field ${record.fieldName}: ${errorMessage(error)}`);
+                failed.push(record.fieldName);
+            }
+        }
+
+        return { reencrypted, failed };
+    }
+
+    public async reencryptCiphertext(
+        userId: string,
+        params: ReencryptionDto
+    ): Promise<FheReencryptionResult> {
+        this.logger.log(`Re-encrypting ciphertext for user ${userId}`);
+
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
+        }
+
+        const stored = await this.userRepository.getFheKeySwitchingKey(
+            user.walletAddress,
+            params.scheme,
+            params.securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL,
+            params.newPublicKeyHash
+        );
+        if (!stored) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.KEY_SWITCHING_KEY_NOT_FOUND);
+        }
+
+        // The switching key only applies to ciphertexts under the key it was generated from
+        const ciphertext = deserializeCiphertext(params.encryptedValue);
+        this.assertCiphertextParameters(ciphertext, params.scheme, params.securityLevel);
+        if (ciphertext.publicKeyHash !== stored.fromPublicKeyHash) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.KEY_MISMATCH}: expected ${stored.fromPublicKeyHash}, `
+                    + `got ${ciphertext.publicKeyHash || 'an untagged ciphertext'}`
+            );
+        }
+
+        const keySwitchingKey = await this.kmsService.decryptSecret(stored.encryptedKey);
+        const encryptedValue = await this.applyKeySwitch(ciphertext, keySwitchingKey, params.newPublicKeyHash);
+
+        return {
+            encryptedValue,
+            metadata: await this.describeCiphertext(
+                encryptedValue,
+                deserializeCiphertext(encryptedValue),
+                params.scheme,
+                params.securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL
+            )
+        };
+    }
+
+    private async applyKeySwitch(
+        ciphertext: any,
+        keySwitchingKey: string,
+        publicKeyHash: string
+    ): Promise<string> {
+        const switched = await switchCiphertextKey(this.tfheInstance, ciphertext, keySwitchingKey);
+        return serializeCiphertext(
+            { ...switched, publicKeyHash },
+            { compress: ciphertext.compressionRatio !== undefined }
+        );
+    }
+
+    private describeKeys(keyPair: FheKeyPair): FheKeyDescriptor[] {
+        const describe = (type: FheKeyDescriptor['type'], keys: string[]): FheKeyDescriptor => ({
+            type,
+            hash: ethers.utils.keccak256(ethers.utils.concat(keys)),
+            size: keys.reduce((total, key) => total + ethers.utils.hexDataLength(key), 0),
+            count: keys.length
+        });
+
+        const descriptors = [
+            describe('public', [keyPair.publicKey]),
+            describe('private', [keyPair.privateKey]),
+            describe('evaluation', [keyPair.evaluationKey])
+        ];
+
+        if (keyPair.relinKeys?.length) {
+            descriptors.push(describe('relinearization', keyPair.relinKeys.map(k => k.key)));
+        }
+        if (keyPair.galoisKeys?.length) {
+            descriptors.push(describe('galois', keyPair.galoisKeys.map(k => k.key)));
+        }
+        if (keyPair.bootstrappingKey) {
+            const { key, refreshingKey, keySwitchingKey } = keyPair.bootstrappingKey;
+            descriptors.push(describe(
+                'bootstrapping',
+                [key, refreshingKey, keySwitchingKey].filter((part): part is string => !!part)
+            ));
+        }
+
+        return descriptors;
+    }
+
+    private async generateNewKeys(scheme: FheScheme, securityLevel: SecurityLevel): Promise<FheKeyPair> {
         const params = FHE_CONSTANTS.SCHEME_PARAMS[scheme];
         
         const keys = await generateFheKeys(this.tfheInstance, {
             scheme,
-            securityLevel: params.securityLevel,
+            securityLevel,
             modulusBits: params.modulusBits,
             plaintextModulus: params.plaintextModulus
         });
@@ -410,7 +1511,8 @@ export class McpFheFieldEncryptionService {
             privateKey: keys.privateKey,
             evaluationKey: keys.evaluationKey,
             scheme,
-            generatedAt: Date.now()
+            generatedAt: Date.now(),
+            securityLevel
         };
     }
 
@@ -421,47 +1523,195 @@ export class McpFheFieldEncryptionService {
         // Encrypt private key using KMS
         const encryptedPrivateKey = await this.kmsService.encryptSecret(keyPair.privateKey);
         const encryptedEvalKey = await this.kmsService.encryptSecret(keyPair.evaluationKey);
+
+        // Optional evaluation key material is wrapped the same way
+        const encryptedRelinKeys = keyPair.relinKeys
+            && await this.kmsService.encryptSecret(JSON.stringify(keyPair.relinKeys));
+        const encryptedGaloisKeys = keyPair.galoisKeys
+            && await this.kmsService.encryptSecret(JSON.stringify(
+                keyPair.galoisKeys.map(key => ({ ...key, modulus: key.modulus.toString() }))
+            ));
+        const encryptedBootstrappingKey = keyPair.bootstrappingKey
+            && await this.kmsService.encryptSecret(JSON.stringify(keyPair.bootstrappingKey));
         
         // Store in database
-        await this.userRepository.storeFheKeys({
+        const storedKeys: StoredFheKeySet = {
             walletAddress,
             publicKey: keyPair.publicKey,
             encryptedPrivateKey,
             encryptedEvalKey,
+            encryptedRelinKeys,
+            encryptedGaloisKeys,
+            encryptedBootstrappingKey,
             scheme: keyPair.scheme,
+            securityLevel: keyPair.securityLevel,
             generatedAt: keyPair.generatedAt
+        };
+        await this.userRepository.storeFheKeys(storedKeys);
+    }
+
+    private cacheKeys(cacheKey: string, keyPair: FheKeyPair): void {
+        // The cache holds its own copy of the private key so it can be zeroed on eviction
+        const { privateKey, ...publicParts } = keyPair;
+        this.keyCache.set(cacheKey, {
+            keyPair: publicParts,
+            privateKey: ethers.utils.arrayify(privateKey)
         });
     }
 
-    private async retrieveUserKeys(walletAddress: string): Promise<FheKeyPair | null> {
-        const storedKeys = await this.userRepository.getFheKeys(walletAddress);
+    private getCachedKeys(cacheKey: string): FheKeyPair | undefined {
+        const cached = this.keyCache.get(cacheKey);
+        if (!cached) {
+            return undefined;
+        }
+
+        return {
+            ...cached.keyPair,
+            privateKey: ethers.utils.hexlify(cached.privateKey)
+        };
+    }
+
+    private keyMaterialSize(cached: CachedFheKeyPair): number {
+        const { keyPair } = cached;
+        const parts = [
+            keyPair.publicKey,
+            keyPair.evaluationKey,
+            ...(keyPair.relinKeys || []).map(key => key.key),
+            ...(keyPair.galoisKeys || []).map(key => key.key)
+        ];
+
+        return parts.reduce(
+            (total, part) => total + ethers.utils.hexDataLength(part),
+            cached.privateKey.length + (keyPair.bootstrappingKey ? this.bootstrappingKeySize(keyPair.bootstrappingKey) : 0)
+        );
+    }
+
+    private bootstrappingKeySize(key: BootstrappingKey): number {
+        return [key.key, key.refreshingKey, key.keySwitchingKey]
+            .filter((part): part is string => !!part)
+            .reduce((total, part) => total + ethers.utils.hexDataLength(part), 0);
+    }
+
+    public getCacheStatistics(): { keys: FheCacheStatistics; bootstrappingKeys: FheCacheStatistics } {
+        return {
+            keys: this.keyCache.getStatistics(),
+            bootstrappingKeys: this.bootstrappingKeys.getStatistics()
+        };
+    }
+
+    private keySetId(walletAddress: string, scheme: FheScheme, securityLevel: SecurityLevel): string {
+        return `${walletAddress}-${scheme}-${securityLevel}`;
+    }
+
+    private async retrieveUserKeys(
+        walletAddress: string,
+        scheme: FheScheme,
+        securityLevel: SecurityLevel
+    ): Promise<FheKeyPair | null> {
+        const storedKeys: StoredFheKeySet | null = await this.userRepository.getFheKeys(walletAddress, scheme, securityLevel)
+            || await this.migrateLegacyKeys(walletAddress, scheme, securityLevel);
         if (!storedKeys) {
             return null;
         }
 
+        // Never hand back a key set for different parameters than requested
+        if (storedKeys.scheme !== scheme || Number(storedKeys.securityLevel) !== securityLevel) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.KEY_SET_MISMATCH}: requested ${scheme}/${securityLevel}, `
+                + `found ${storedKeys.scheme}/${storedKeys.securityLevel}`
+            );
+        }
+
         // Decrypt keys using KMS
         const privateKey = await this.kmsService.decryptSecret(storedKeys.encryptedPrivateKey);
         const evaluationKey = await this.kmsService.decryptSecret(storedKeys.encryptedEvalKey);
 
-        return {
+        const keyPair: FheKeyPair = {
             publicKey: storedKeys.publicKey,
             privateKey,
             evaluationKey,
             scheme: storedKeys.scheme as FheScheme,
-            generatedAt: storedKeys.generatedAt
+            generatedAt: storedKeys.generatedAt,
+            securityLevel: storedKeys.securityLevel as SecurityLevel
         };
+
+        if (storedKeys.encryptedRelinKeys) {
+            keyPair.relinKeys = JSON.parse(await this.kmsService.decryptSecret(storedKeys.encryptedRelinKeys));
+        }
+        if (storedKeys.encryptedGaloisKeys) {
+            // Moduli are stored as decimal strings since JSON has no bigint
+            const galoisKeys: Array<Omit<GaloisKey, 'modulus'> & { modulus: string }> = JSON.parse(
+                await this.kmsService.decryptSecret(storedKeys.encryptedGaloisKeys)
+            );
+            keyPair.galoisKeys = galoisKeys.map(key => ({ ...key, modulus: BigInt(key.modulus) }));
+        }
+        if (storedKeys.encryptedBootstrappingKey) {
+            keyPair.bootstrappingKey = JSON.parse(
+                await this.kmsService.decryptSecret(storedKeys.encryptedBootstrappingKey)
+            );
+        }
+
+        return keyPair;
     }
 
-    private async getEvaluationKey(walletAddress: string, scheme: FheScheme): Promise<string> {
-        const keyPair = await this.getOrGenerateKeys(walletAddress, scheme);
+    private async migrateLegacyKeys(
+        walletAddress: string,
+        scheme: FheScheme,
+        securityLevel: SecurityLevel
+    ): Promise<StoredFheKeySet | null> {
+        // Wallets that predate per-scheme storage hold a single unscoped key set
+        const legacyKeys: StoredFheKeySet | null = await this.userRepository.getLegacyFheKeys(walletAddress);
+        if (!legacyKeys || legacyKeys.scheme !== scheme) {
+            return null;
+        }
+
+        // Legacy sets were generated with the scheme's default parameters but served every
+        // security level, so the set moves to its own level and is copied to each level that
+        // asks for it. The legacy record stays as the fallback until no level still needs it.
+        const legacyLevel = Number(legacyKeys.securityLevel) as SecurityLevel
+            || FHE_CONSTANTS.SCHEME_PARAMS[scheme].securityLevel;
+        const migratedKeys: StoredFheKeySet = { ...legacyKeys, securityLevel };
+        await this.userRepository.storeFheKeys(migratedKeys);
+        if (securityLevel !== legacyLevel && !await this.userRepository.getFheKeys(walletAddress, scheme, legacyLevel)) {
+            await this.userRepository.storeFheKeys({ ...legacyKeys, securityLevel: legacyLevel });
+        }
+
+        const levels = Object.values(SecurityLevel).filter((level): level is SecurityLevel => typeof level === 'number');
+        const migrated = await Promise.all(
+            levels.map(level => this.userRepository.getFheKeys(walletAddress, scheme, level))
+        );
+        if (migrated.every(Boolean)) {
+            await this.userRepository.deleteLegacyFheKeys(walletAddress);
+        }
+
+        this.logger.log(`Migrated legacy ${scheme} key set for ${walletAddress} to security level ${securityLevel}`);
+        return migratedKeys;
+    }
+
+    private async getEvaluationKey(
+        walletAddress: string,
+        scheme: FheScheme,
+        securityLevel: SecurityLevel,
+        inputs: any[]
+    ): Promise<string> {
+        const keyPair = await this.getOrGenerateKeys(walletAddress, scheme, securityLevel);
+
+        // The evaluation key only applies to ciphertexts produced under its public key
+        inputs.forEach(input => this.assertCiphertextKey(input, keyPair.publicKey));
+
         return keyPair.evaluationKey;
     }
 
+    private bootstrappingKeyId(evalKey: string, scheme: FheScheme): string {
+        return `${ethers.utils.keccak256(evalKey)}-${scheme}`;
+    }
+
     private async getBootstrappingKey(evalKey: string, scheme: FheScheme): Promise<BootstrappingKey> {
-        const cacheKey = `${evalKey}-${scheme}`;
+        const cacheKey = this.bootstrappingKeyId(evalKey, scheme);
         
-        if (this.bootstrappingKeys.has(cacheKey)) {
-            return this.bootstrappingKeys.get(cacheKey)!;
+        const cachedKey = this.bootstrappingKeys.get(cacheKey);
+        if (cachedKey) {
+            return cachedKey;
         }
 
         const params = FHE_CONSTANTS.SCHEME_PARAMS[scheme];
@@ -512,11 +1762,84 @@ export class McpFheFieldEncryptionService {
         }
     }
 
-    private calculateNoiseLevel(ciphertext: any): number {
-        // Simulate noise level calculation
-        const baseNoise = Math.random() * 50;
-        const depthFactor = ciphertext.depth || 1;
-        return baseNoise * depthFactor;
+    private calculateNoiseLevel(ciphertext: any, scheme: FheScheme): number {
+        return computeNoiseLevel(ciphertext.noise, ciphertext.depth || 0, scheme);
+    }
+
+    public estimateNoise(params: NoiseEstimateDto): NoiseEstimate {
+        const ciphertext = deserializeCiphertext(params.encryptedValue);
+        this.assertCiphertextParameters(ciphertext, params.scheme);
+
+        const currentNoise = this.calculateNoiseLevel(ciphertext, params.scheme);
+        const freshNoise = FHE_CONSTANTS.SCHEME_PARAMS[params.scheme].noiseStandardDeviation;
+
+        // Count multiplications by a fresh ciphertext the noise budget still allows
+        let noise = ciphertext.noise;
+        let depth = ciphertext.depth || 0;
+        let remainingComputations = 0;
+
+        while (depth < FHE_CONSTANTS.MAX_CIRCUIT_DEPTH) {
+            noise = estimateNoiseGrowth('multiply', [noise, freshNoise]);
+            depth++;
+            if (computeNoiseLevel(noise, depth, params.scheme) > FHE_CONSTANTS.MAX_NOISE_LEVEL) {
+                break;
+            }
+            remainingComputations++;
+        }
+
+        return {
+            currentNoise,
+            maxNoise: FHE_CONSTANTS.MAX_NOISE_LEVEL,
+            remainingComputations,
+            requiresBootstrapping: currentNoise > FHE_CONSTANTS.MAX_NOISE_LEVEL || remainingComputations === 0
+        };
+    }
+
+    private assertCiphertextKey(ciphertext: any, publicKey: string): void {
+        // Ciphertexts serialized before key binding carry no key hash to check
+        if (!ciphertext.publicKeyHash) {
+            this.logger.warn('Ciphertext carries no key hash, skipping key check');
+            return;
+        }
+
+        if (ciphertext.publicKeyHash !== ethers.utils.keccak256(publicKey)) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.KEY_MISMATCH}: ciphertext key ${ciphertext.publicKeyHash}`
+            );
+        }
+    }
+
+    private assertSameKey(inputs: any[]): void {
+        const keyHashes = new Set(inputs.map(input => input.publicKeyHash).filter(Boolean));
+        if (keyHashes.size > 1) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.KEY_MISMATCH}: inputs were encrypted under different keys`
+            );
+        }
+    }
+
+    private assertCiphertextParameters(
+        ciphertext: any,
+        scheme: FheScheme,
+        securityLevel?: SecurityLevel
+    ): void {
+        // Ciphertexts serialized before scheme tagging carry no parameters to check
+        if (!ciphertext.scheme) {
+            this.logger.warn('Ciphertext carries no scheme tag, skipping parameter check');
+            return;
+        }
+
+        if (ciphertext.scheme !== scheme) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.SCHEME_MISMATCH}: expected ${scheme}, got ${ciphertext.scheme}`
+            );
+        }
+
+        if (securityLevel && ciphertext.securityLevel && ciphertext.securityLevel !== securityLevel) {
+            throw new Error(
+                `${FHE_CONSTANTS.ERROR_MESSAGES.SCHEME_MISMATCH}: expected security level ${securityLevel}, got ${ciphertext.securityLevel}`
+            );
+        }
     }
 
     private needsRelinearization(ciphertext: any): boolean {
@@ -527,40 +1850,408 @@ export class McpFheFieldEncryptionService {
         return await this.tfheInstance.relinearize(context, ciphertext);
     }
 
-    private async storeEncryptedOnChain(
+    private async storeEncryptedOnChains(
         walletAddress: string,
         fieldName: string,
         encryptedValue: string,
-        metadata: CiphertextMetadata
-    ): Promise<string> {
-        const contractAddress = this.settingsService.getSettings()
-            .contracts.fheStorage || FHE_CONSTANTS.STORAGE_CONTRACT;
-        
+        metadata: CiphertextMetadata,
+        chain?: ChainNames | ChainNames[]
+    ): Promise<FheChainStorageRecord[]> {
+        const chains = this.targetChains(chain);
+
         const { encryptedKey } = await this.userRepository.getUserAccountByWallet(walletAddress);
         const privateKey = await this.kmsService.decryptSecret(encryptedKey);
-        const signer = this.evmUtils.privateKeyToSigner(ChainNames.CYPHER, privateKey);
 
-        const contract = this.evmUtils.getContract<ethers.Contract>(
-            ChainNames.CYPHER,
-            contractAddress,
-            FHE_CONSTANTS.STORAGE_ABI,
-            signer
-        );
+        // Replicas are written one chain at a time so a failure stops before further spend
+        const records: FheChainStorageRecord[] = [];
+        for (const target of chains) {
+            try {
+                records.push(
+                    await this.storeEncryptedOnChain(target, privateKey, walletAddress, fieldName, encryptedValue, metadata)
+                );
+            } catch (error) {
+                // Callers need the replicas that did land to reconcile or retry only the rest
+                throw error instanceof FheStorageError && records.length
+                    ? error.withStoredRecords(records)
+                    : error;
+            }
+        }
+
+        return records;
+    }
+
+    private targetChains(chain: ChainNames | ChainNames[] = ChainNames.CYPHER): ChainNames[] {
+        const chains = Array.isArray(chain) ? chain : [chain];
+        return chains.length ? [...new Set(chains)] : [ChainNames.CYPHER];
+    }
+
+    // Storage keys are bytes32, so packed ciphertexts are keyed by a short content hash
+    private packedStorageFieldName(encryptedValue: string): string {
+        return `packed-${ethers.utils.id(encryptedValue).slice(2, 18)}`;
+    }
+
+    // A packed field is stored under its own name as a reference: the value names the shared
+    // ciphertext's storage key and the metadata, signed over that ciphertext, carries the slot
+    private async storePackedFieldReference(
+        walletAddress: string,
+        fieldName: string,
+        metadata: CiphertextMetadata,
+        chains: ChainNames[]
+    ): Promise<FheChainStorageRecord[]> {
+        return await this.storeEncryptedOnChains(walletAddress, fieldName, metadata.storageFieldName!, metadata, chains);
+    }
+
+    private async storeEncryptedOnChain(
+        chain: ChainNames,
+        privateKey: string,
+        walletAddress: string,
+        fieldName: string,
+        encryptedValue: string,
+        metadata: CiphertextMetadata
+    ): Promise<FheChainStorageRecord> {
+        const signer = this.evmUtils.privateKeyToSigner(chain, privateKey);
+        const contract = this.getStorageContract(chain).connect(signer);
+        const contractAddress = contract.address;
 
-        const tx = await contract.storeEncryptedField(
+        const args = [
             walletAddress,
             ethers.utils.formatBytes32String(fieldName),
             encryptedValue,
             ethers.utils.hexlify(ethers.utils.toUtf8Bytes(JSON.stringify(metadata)))
+        ];
+        const gasLimit = await this.estimateStorageGas(chain, contract, args);
+        const nonceKey = `${chain}:${await signer.getAddress()}`;
+
+        let fees = await this.getStorageFees(signer);
+        let nonce: number | undefined;
+        const sent: string[] = [];
+
+        for (let attempt = 1; attempt <= FHE_CONSTANTS.STORE_TX_MAX_ATTEMPTS; attempt++) {
+            try {
+                if (nonce === undefined) {
+                    // Nonces are assigned under a per-wallet lock so concurrent writes never collide
+                    const submitted = await this.withNonceLock(nonceKey, async () => {
+                        const next = Math.max(
+                            await signer.getTransactionCount('pending'),
+                            this.nextNonces.get(nonceKey) ?? 0
+                        );
+                        const tx = await contract.storeEncryptedField(...args, { gasLimit, nonce: next, ...fees });
+                        this.nextNonces.set(nonceKey, next + 1);
+                        return { tx, nonce: next };
+                    });
+                    nonce = submitted.nonce;
+                    sent.push(submitted.tx.hash);
+                } else {
+                    // Same nonce with higher fees replaces the stuck transaction
+                    const tx = await contract.storeEncryptedField(...args, { gasLimit, nonce, ...fees });
+                    sent.push(tx.hash);
+                }
+            } catch (error) {
+                // A replacement can lose the race against an earlier attempt being mined
+                const mined = await this.findMinedReceipt(signer.provider, sent);
+                if (mined) {
+                    return this.toStorageRecord(chain, contractAddress, mined);
+                }
+
+                // The earlier attempt is still pending at this nonce, so keep waiting on it and
+                // offer a larger bump next time rather than abandoning a transaction that may land
+                if (sent.length && errorCode(error) === ethers.utils.Logger.errors.REPLACEMENT_UNDERPRICED) {
+                    this.logger.warn(`Replacement for ${sent[sent.length - 1]} on ${chain} underpriced, waiting on it`);
+                    const receipt = await this.waitForStorageReceipt(chain, signer.provider, sent);
+                    if (receipt) {
+                        return this.toStorageRecord(chain, contractAddress, receipt);
+                    }
+                    fees = this.bumpStorageFees(fees);
+                    continue;
+                }
+
+                if (!sent.length) {
+                    this.nextNonces.delete(nonceKey);
+                }
+                throw new FheStorageError(
+                    'SUBMISSION_FAILED',
+                    chain,
+                    FHE_CONSTANTS.ERROR_MESSAGES.STORE_SUBMISSION_FAILED,
+                    sent,
+                    error
+                );
+            }
+
+            const receipt = await this.waitForStorageReceipt(chain, signer.provider, sent);
+            if (receipt) {
+                return this.toStorageRecord(chain, contractAddress, receipt);
+            }
+
+            this.logger.warn(
+                `Storage transaction ${sent[sent.length - 1]} on ${chain} not mined, bumping fees (attempt ${attempt})`
+            );
+            fees = this.bumpStorageFees(fees);
+        }
+
+        // Fall back to the node's pending count for the next write from this wallet
+        this.nextNonces.delete(nonceKey);
+        throw new FheStorageError(
+            'TRANSACTION_TIMEOUT',
+            chain,
+            FHE_CONSTANTS.ERROR_MESSAGES.STORE_TIMEOUT,
+            sent
         );
-        
-        const receipt = await tx.wait();
-        const txHash: string = receipt.transactionHash;
-        const txLink = this.evmUtils.explorerUrlForTx(ChainNames.CYPHER, txHash);
+    }
 
-        this.logger.log(`Encrypted field stored on-chain: ${txHash}`);
-        
-        return txLink;
+    private async estimateStorageGas(
+        chain: ChainNames,
+        contract: ethers.Contract,
+        args: string[]
+    ): Promise<ethers.BigNumber> {
+        const cap = this.storageGasCap(args[2], args[3]);
+
+        let estimate: ethers.BigNumber;
+        try {
+            estimate = await contract.estimateGas.storeEncryptedField(...args);
+        } catch (error) {
+            throw new FheStorageError(
+                'GAS_ESTIMATION_FAILED',
+                chain,
+                FHE_CONSTANTS.ERROR_MESSAGES.STORE_GAS_ESTIMATION_FAILED,
+                [],
+                error
+            );
+        }
+
+        if (estimate.gt(cap)) {
+            throw new FheStorageError(
+                'GAS_LIMIT_EXCEEDED',
+                chain,
+                `${FHE_CONSTANTS.ERROR_MESSAGES.STORE_GAS_LIMIT_EXCEEDED}: ${estimate.toString()} > ${cap.toString()}`
+            );
+        }
+
+        const withMargin = estimate.mul(100 + FHE_CONSTANTS.GAS_ESTIMATE_MARGIN_PERCENT).div(100);
+        return withMargin.gt(cap) ? cap : withMargin;
+    }
+
+    // Storage cost grows with the ciphertext, so the cap is a fixed overhead plus the cost of
+    // writing and sending every 32-byte word of the payload
+    private storageGasCap(encryptedValue: string, metadata: string): ethers.BigNumber {
+        const payloadBytes = [encryptedValue, metadata].reduce((total, part) => total + (
+            ethers.utils.isHexString(part) ? ethers.utils.hexDataLength(part) : ethers.utils.toUtf8Bytes(part).length
+        ), 0);
+        const words = Math.ceil(payloadBytes / 32);
+
+        return ethers.BigNumber.from(FHE_CONSTANTS.GAS_LIMITS.STORE_ENCRYPTED)
+            .add(words * FHE_CONSTANTS.STORE_GAS_PER_WORD)
+            .add(payloadBytes * FHE_CONSTANTS.CALLDATA_GAS_PER_BYTE);
+    }
+
+    private async getStorageFees(signer: ethers.Signer): Promise<ethers.providers.TransactionRequest> {
+        const feeData = await signer.getFeeData();
+
+        return feeData.maxFeePerGas && feeData.maxPriorityFeePerGas
+            ? { maxFeePerGas: feeData.maxFeePerGas, maxPriorityFeePerGas: feeData.maxPriorityFeePerGas }
+            : { gasPrice: feeData.gasPrice! };
+    }
+
+    private bumpStorageFees(fees: ethers.providers.TransactionRequest): ethers.providers.TransactionRequest {
+        const bump = (value: ethers.BigNumberish) => ethers.BigNumber.from(value)
+            .mul(100 + FHE_CONSTANTS.STORE_FEE_BUMP_PERCENT)
+            .div(100);
+
+        return fees.gasPrice
+            ? { gasPrice: bump(fees.gasPrice) }
+            : { maxFeePerGas: bump(fees.maxFeePerGas!), maxPriorityFeePerGas: bump(fees.maxPriorityFeePerGas!) };
+    }
+
+    private async waitForStorageReceipt(
+        chain: ChainNames,
+        provider: ethers.providers.Provider | undefined,
+        sent: string[]
+    ): Promise<ethers.providers.TransactionReceipt | undefined> {
+        try {
+            return await provider!.waitForTransaction(
+                sent[sent.length - 1],
+                1,
+                FHE_CONSTANTS.STORE_TX_TIMEOUT
+            );
+        } catch (error) {
+            if (errorCode(error) !== ethers.utils.Logger.errors.TIMEOUT) {
+                throw new FheStorageError(
+                    'SUBMISSION_FAILED',
+                    chain,
+                    FHE_CONSTANTS.ERROR_MESSAGES.STORE_SUBMISSION_FAILED,
+                    sent,
+                    error
+                );
+            }
+            // An earlier attempt may have been mined while waiting on its replacement
+            return await this.findMinedReceipt(provider, sent);
+        }
+    }
+
+    private async findMinedReceipt(
+        provider: ethers.providers.Provider | undefined,
+        sent: string[]
+    ): Promise<ethers.providers.TransactionReceipt | undefined> {
+        for (const hash of sent) {
+            const receipt = await provider?.getTransactionReceipt(hash);
+            if (receipt) {
+                return receipt;
+            }
+        }
+
+        return undefined;
+    }
+
+    private toStorageRecord(
+        chain: ChainNames,
+        contractAddress: string,
+        receipt: ethers.providers.TransactionReceipt
+    ): FheChainStorageRecord {
+        const txHash = receipt.transactionHash;
+        if (receipt.status === 0) {
+            throw new FheStorageError('TRANSACTION_REVERTED', chain, FHE_CONSTANTS.ERROR_MESSAGES.STORE_REVERTED, [txHash]);
+        }
+
+        this.logger.log(`Encrypted field stored on ${chain}: ${txHash}`);
+
+        return {
+            chain,
+            contractAddress,
+            transactionHash: txHash,
+            transactionLink: this.evmUtils.explorerUrlForTx(chain, txHash),
+            gasUsed: receipt.gasUsed.toNumber()
+        };
+    }
+
+    private async withNonceLock<T>(key: string, task: () => Promise<T>): Promise<T> {
+        const previous = this.nonceLocks.get(key) || Promise.resolve();
+        const current = previous.catch(() => undefined).then(task);
+        this.nonceLocks.set(key, current);
+
+        try {
+            return await current;
+        } finally {
+            if (this.nonceLocks.get(key) === current) {
+                this.nonceLocks.delete(key);
+            }
+        }
+    }
+
+    public async fetchEncryptedField(
+        userId: string,
+        fieldName: string,
+        chain: ChainNames = ChainNames.CYPHER
+    ): Promise<FheEncryptedData> {
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
+        }
+
+        const stored = await this.readStoredField(chain, user.walletAddress, fieldName);
+
+        let metadata: CiphertextMetadata;
+        try {
+            metadata = JSON.parse(ethers.utils.toUtf8String(stored.metadata));
+        } catch (error) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+        }
+
+        // Packed fields hold a reference; the ciphertext itself lives under the shared storage key
+        const encryptedValue = metadata.storageFieldName
+            ? (await this.readStoredField(chain, user.walletAddress, metadata.storageFieldName)).encryptedValue
+            : stored.encryptedValue;
+
+        // Legacy ciphertexts carry no key hash
+        const ciphertext = deserializeCiphertext(encryptedValue);
+
+        return {
+            fieldName,
+            encryptedValue,
+            metadata,
+            publicKeyHash: ciphertext.publicKeyHash || ethers.constants.HashZero,
+            ...(metadata.storageFieldName && { storageFieldName: metadata.storageFieldName })
+        };
+    }
+
+    private async readStoredField(
+        chain: ChainNames,
+        walletAddress: string,
+        fieldName: string
+    ): Promise<{ encryptedValue: string; metadata: string }> {
+        // View calls need no key: the provider-backed contract calls from the owning wallet's
+        // address, so contracts that restrict views by sender still answer
+        const stored = await this.getStorageContract(chain).getEncryptedField(
+            walletAddress,
+            ethers.utils.formatBytes32String(fieldName),
+            { from: walletAddress }
+        );
+        if (!stored.encryptedValue) {
+            throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.FIELD_NOT_FOUND}: ${fieldName}`);
+        }
+
+        return stored;
+    }
+
+    public async decryptStoredField(
+        userId: string,
+        fieldName: string,
+        originalDataType: string,
+        chain: ChainNames = ChainNames.CYPHER
+    ): Promise<any> {
+        const stored = await this.fetchEncryptedField(userId, fieldName, chain);
+
+        return await this.decryptField(userId, {
+            fieldName,
+            encryptedValue: stored.encryptedValue,
+            metadata: stored.metadata,
+            originalDataType
+        });
+    }
+
+    private getStorageContract(chain: ChainNames): ethers.Contract {
+        // One provider-backed contract per chain for reads; writes connect the wallet's signer
+        if (!this.encryptionContracts.has(chain)) {
+            this.encryptionContracts.set(chain, this.evmUtils.getContract<ethers.Contract>(
+                chain,
+                this.storageContractAddress(chain),
+                FHE_CONSTANTS.STORAGE_ABI
+            ));
+        }
+
+        return this.encryptionContracts.get(chain)!;
+    }
+
+    private storageContractAddress(chain: ChainNames): string {
+        const contracts = this.settingsService.getSettings().contracts;
+        const chainContracts: Partial<Record<ChainNames, string>> = FHE_CONSTANTS.ENCRYPTION_CONTRACTS;
+
+        // Per-chain settings override the built-in addresses; Cypher keeps its original storage contract
+        const address = contracts.fheStorageByChain?.[chain] || (chain === ChainNames.CYPHER
+            ? contracts.fheStorage || FHE_CONSTANTS.STORAGE_CONTRACT
+            : chainContracts[chain]);
+        if (!address) {
+            throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.STORAGE_CONTRACT_NOT_CONFIGURED}: ${chain}`);
+        }
+
+        return address;
+    }
+
+    public async queryAuditLogs(filter: FheAuditLogQuery): Promise<FheAuditLog[]> {
+        return await this.auditService.query(filter);
+    }
+
+    private async withAudit<T>(
+        entry: FheAuditEntry,
+        operation: () => Promise<T>,
+        describe?: (result: T) => Partial<FheAuditLog>
+    ): Promise<T> {
+        try {
+            const result = await operation();
+            await this.auditService.record({ ...entry, ...describe?.(result), success: true });
+            return result;
+        } catch (error) {
+            await this.auditService.record({ ...entry, success: false, errorMessage: errorMessage(error) });
+            throw error;
+        }
     }
 
     public async createFheCircuit(
@@ -574,159 +2265,217 @@ export class McpFheFieldEncryptionService {
             throw new Error('User wallet not found');
         }
 
-        // Compile the circuit operations into an execution plan
+        // Validate and compile the circuit operations into an execution plan
         const executionPlan = await this.compileCircuit(circuit);
         
-        // Store circuit definition
+        // Persist circuit definition and execution plan
         const circuitId = ethers.utils.id(`${user.walletAddress}-${circuit.name}-${Date.now()}`);
-        await this.storeCircuitDefinition(circuitId, circuit, executionPlan);
+        await this.circuitRegistry.register(circuitId, user.walletAddress, circuit, executionPlan);
 
         return circuitId;
     }
 
-    private async compileCircuit(circuit: FheCircuit): Promise<any> {
-        const operations = [];
-        
-        for (const gate of circuit.gates) {
-            operations.push({
-                type: gate.operation,
-                inputs: gate.inputs,
-                output: gate.output,
-                parameters: gate.parameters
-            });
+    public async listFheCircuits(userId: string): Promise<StoredFheCircuit[]> {
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
         }
 
-        return {
-            operations,
-            inputCount: circuit.inputs.length,
-            outputCount: circuit.outputs.length,
-            depth: this.calculateCircuitDepth(circuit),
-            estimatedNoiseGrowth: this.estimateNoiseGrowth(circuit)
-        };
+        return await this.circuitRegistry.list(user.walletAddress);
     }
 
-    private calculateCircuitDepth(circuit: FheCircuit): number {
-        // Calculate multiplicative depth of the circuit
-        let maxDepth = 0;
-        const depths = new Map<string, number>();
-
-        for (const input of circuit.inputs) {
-            depths.set(input, 0);
+    public async getFheCircuit(userId: string, circuitId: string): Promise<StoredFheCircuit> {
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
         }
 
-        for (const gate of circuit.gates) {
-            const inputDepths = gate.inputs.map(i => depths.get(i) || 0);
-            const gateDepth = gate.operation === 'multiply' 
-                ? Math.max(...inputDepths) + 1 
-                : Math.max(...inputDepths);
-            depths.set(gate.output, gateDepth);
-            maxDepth = Math.max(maxDepth, gateDepth);
+        return await this.circuitRegistry.get(circuitId, user.walletAddress);
+    }
+
+    public async deleteFheCircuit(userId: string, circuitId: string): Promise<void> {
+        const user = await this.userRepository.getUserById(userId);
+        if (!user?.walletAddress) {
+            throw new Error('User wallet not found');
         }
 
-        return maxDepth;
+        await this.circuitRegistry.delete(circuitId, user.walletAddress);
     }
 
-    private estimateNoiseGrowth(circuit: FheCircuit): number {
-        // Estimate noise growth based on circuit operations
-        let noiseEstimate = FHE_CONSTANTS.BASE_NOISE;
-        
-        for (const gate of circuit.gates) {
-            switch (gate.operation) {
-                case 'multiply':
-                    noiseEstimate *= FHE_CONSTANTS.NOISE_GROWTH_FACTORS.MULTIPLY;
-                    break;
-                case 'add':
-                    noiseEstimate *= FHE_CONSTANTS.NOISE_GROWTH_FACTORS.ADD;
-                    break;
-                case 'rotate':
-                    noiseEstimate *= FHE_CONSTANTS.NOISE_GROWTH_FACTORS.ROTATE;
-                    break;
-            }
-        }
+    private async compileCircuit(circuit: FheCircuit): Promise<CircuitExecutionPlan> {
+        const orderedGates = validateCircuit(circuit);
 
-        return noiseEstimate;
+        // Insert explicit bootstrap gates where a wire would exceed the noise budget
+        const { operations, bootstrappingPoints, estimatedNoise } = placeBootstraps(circuit, orderedGates);
+
+        return {
+            operations,
+            inputCount: circuit.inputs.length,
+            outputCount: circuit.outputs.length,
+            depth: calculateCircuitDepth(circuit.inputs, orderedGates, circuit.scheme),
+            estimatedNoiseGrowth: estimatedNoise,
+            bootstrappingPoints
+        };
     }
 
-    private async storeCircuitDefinition(
+    public async executeCircuit(
+        userId: string,
         circuitId: string,
-        circuit: FheCircuit,
-        executionPlan: any
-    ): Promise<void> {
-        // Store circuit definition (in practice, this would be stored in database)
-        this.logger.log(`Stored circuit ${circuitId}: ${circuit.name}`);
+        encryptedInputs: Record<string, string>
+    ): Promise<HomomorphicEvaluation> {
+        // Audited under the default scheme until the circuit loads, so failed lookups are recorded too
+        const audit: FheAuditEntry = {
+            userId,
+            operationType: 'compute',
+            operation: `circuit:${circuitId}`,
+            scheme: FHE_CONSTANTS.DEFAULT_SCHEME
+        };
+
+        return await this.withAudit(audit, async () => {
+            const user = await this.userRepository.getUserById(userId);
+            if (!user?.walletAddress) {
+                throw new Error('User wallet not found');
+            }
+
+            // Load circuit definition, checking ownership
+            const stored = await this.circuitRegistry.get(circuitId, user.walletAddress);
+            audit.scheme = stored.circuit.scheme;
+
+            return await this.executeCircuitForUser(userId, user.walletAddress, circuitId, stored, encryptedInputs);
+        });
     }
 
-    public async executeCircuit(
+    private async executeCircuitForUser(
         userId: string,
+        walletAddress: string,
         circuitId: string,
+        { circuit, executionPlan }: StoredFheCircuit,
         encryptedInputs: Record<string, string>
-    ): Promise<Record<string, string>> {
+    ): Promise<HomomorphicEvaluation> {
         this.logger.log(`Executing circuit ${circuitId} for user ${userId}`);
 
-        const user = await this.userRepository.getUserById(userId);
-        if (!user?.walletAddress) {
-            throw new Error('User wallet not found');
+        for (const gate of executionPlan.operations) {
+            if (!isGateSupported(gate.type, circuit.scheme)) {
+                throw new Error(
+                    `${FHE_CONSTANTS.ERROR_MESSAGES.UNSUPPORTED_GATE}: ${gate.type} under ${circuit.scheme}`
+                );
+            }
         }
 
-        // Load circuit definition
-        const circuit = await this.loadCircuitDefinition(circuitId);
-        const evalKey = await this.getEvaluationKey(user.walletAddress, FheScheme.TFHE);
-
-        // Execute circuit operations
+        // Intermediate wire values stay in memory for the whole evaluation
         const wireValues = new Map<string, any>();
         
-        // Load inputs
-        for (const [inputName, encryptedValue] of Object.entries(encryptedInputs)) {
-            wireValues.set(inputName, deserializeCiphertext(encryptedValue));
+        // Load inputs, checking every input against the circuit's parameters before any gate runs
+        for (const inputName of circuit.inputs) {
+            if (!(inputName in encryptedInputs)) {
+                throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.UNDEFINED_WIRE}: ${inputName}`);
+            }
+            const ciphertext = deserializeCiphertext(encryptedInputs[inputName]);
+            this.assertCiphertextParameters(ciphertext, circuit.scheme, circuit.securityLevel);
+            wireValues.set(inputName, ciphertext);
         }
 
-        // Execute gates in topological order
-        for (const gate of circuit.gates) {
-            const inputs = gate.inputs.map(i => wireValues.get(i));
-            const result = await this.executeGate(gate, inputs, evalKey, FheScheme.TFHE);
-            wireValues.set(gate.output, result);
+        // A single evaluation context bound to the caller's evaluation key
+        const evalKey = await this.getEvaluationKey(
+            walletAddress,
+            circuit.scheme,
+            circuit.securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL,
+            circuit.inputs.map(name => wireValues.get(name))
+        );
+        const context = await this.createEvaluationContext(evalKey, circuit.scheme);
+
+        const startTime = Date.now();
+        const startMemory = process.memoryUsage().heapUsed;
+        const inputNoise = Math.max(...circuit.inputs.map(name => wireValues.get(name).noise));
+        const gateResults: GateEvaluationResult[] = [];
+
+        const remainingConsumers = countWireConsumers(executionPlan.operations);
+        const retainedWires = new Set(circuit.outputs);
+
+        // Execute independent gates level by level, each level in parallel
+        for (const level of groupOperationsIntoLevels(executionPlan.operations)) {
+            const evaluations = await mapWithConcurrency(level, FHE_CONSTANTS.THREAD_COUNT, async gate => {
+                const inputs = gate.inputs.map(i => wireValues.get(i));
+                return await this.executeGate(gate, inputs, context, evalKey, circuit.scheme);
+            });
+
+            level.forEach((gate, index) => {
+                wireValues.set(gate.output, evaluations[index].value);
+                gateResults.push(evaluations[index].evaluation);
+            });
+
+            // Release wire values once their last consumer has run
+            for (const gate of level) {
+                for (const wire of new Set(gate.inputs)) {
+                    const remaining = remainingConsumers.get(wire)! - 1;
+                    remainingConsumers.set(wire, remaining);
+                    if (remaining === 0 && !retainedWires.has(wire)) {
+                        wireValues.delete(wire);
+                    }
+                }
+                if (!remainingConsumers.has(gate.output) && !retainedWires.has(gate.output)) {
+                    wireValues.delete(gate.output);
+                }
+            }
         }
 
         // Collect outputs
         const outputs: Record<string, string> = {};
+        const outputMetadata: Record<string, CiphertextMetadata> = {};
         for (const outputName of circuit.outputs) {
             const value = wireValues.get(outputName);
             outputs[outputName] = serializeCiphertext(value);
+            outputMetadata[outputName] = await this.describeCiphertext(
+                outputs[outputName],
+                value,
+                circuit.scheme,
+                circuit.securityLevel || FHE_CONSTANTS.DEFAULT_SECURITY_LEVEL
+            );
         }
 
-        return outputs;
-    }
+        const outputNoise = Math.max(...circuit.outputs.map(name => wireValues.get(name).noise));
 
-    private async loadCircuitDefinition(circuitId: string): Promise<FheCircuit> {
-        // In practice, load from database
         return {
-            name: 'mock-circuit',
-            inputs: ['input1', 'input2'],
-            outputs: ['output'],
-            gates: [
-                {
-                    operation: 'add',
-                    inputs: ['input1', 'input2'],
-                    output: 'output'
-                }
-            ]
+            circuitId,
+            circuit,
+            inputs: encryptedInputs,
+            outputs,
+            outputMetadata,
+            evaluationTime: Date.now() - startTime,
+            memoryUsed: Math.max(0, process.memoryUsage().heapUsed - startMemory),
+            noiseGrowth: outputNoise - inputNoise,
+            gateResults
         };
     }
 
     private async executeGate(
-        gate: any,
+        gate: CircuitOperation,
         inputs: any[],
+        context: any,
         evalKey: string,
         scheme: FheScheme
-    ): Promise<any> {
-        const operation: HomomorphicOperation = {
-            type: gate.operation,
-            inputs: inputs.map(i => serializeCiphertext(i)),
+    ): Promise<{ value: any; evaluation: GateEvaluationResult }> {
+        const startTime = Date.now();
+
+        // Bootstraps are placed explicitly by the compiler, so gates never refresh on their own
+        const value = await this.applyOperation(
+            gate.type as HomomorphicOperation['type'],
+            inputs,
+            context,
+            evalKey,
             scheme,
-            autoBootstrap: true
-        };
+            gate.parameters
+        );
 
-        const result = await this.performHomomorphicOperation('system', operation);
-        return deserializeCiphertext(result.result);
+        return {
+            value,
+            evaluation: {
+                output: gate.output,
+                operation: gate.type,
+                noiseLevel: this.calculateNoiseLevel(value, scheme),
+                computationTime: Date.now() - startTime,
+                bootstrapped: refreshesNoise(gate.type)
+            }
+        };
     }
 }
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { ChainNames } from 'modules/blockchain/constants';
+
 export enum FheScheme {
     TFHE = 'tfhe',
     CKKS = 'ckks',
@@ -17,6 +19,58 @@ export interface FheKeyPair {
     evaluationKey: string;
     scheme: FheScheme;
     generatedAt: number;
+    securityLevel?: SecurityLevel;
+    relinKeys?: RelinearizationKey[];
+    galoisKeys?: GaloisKey[];
+    bootstrappingKey?: BootstrappingKey;
+    retiredAt?: number;
+}
+
+// Key set as persisted; secret material is KMS-wrapped
+export interface StoredFheKeySet {
+    walletAddress: string;
+    publicKey: string;
+    encryptedPrivateKey: string;
+    encryptedEvalKey: string;
+    encryptedRelinKeys?: string;
+    encryptedGaloisKeys?: string;
+    encryptedBootstrappingKey?: string;
+    scheme: FheScheme;
+    securityLevel?: SecurityLevel;
+    generatedAt: number;
+    retiredAt?: number;
+}
+
+export interface FheReencryptionResult {
+    encryptedValue: string;
+    metadata: CiphertextMetadata;
+}
+
+export interface FheKeyRotationResult {
+    scheme: FheScheme;
+    previousPublicKeyHash: string;
+    publicKeyHash: string;
+    rotatedAt: number;
+    nextRotationDue: number;
+    reencryptedValues: string[];
+    reencryptedMetadata: CiphertextMetadata[];
+    reencryptedVaultFields: string[];
+    // Vault fields that could not be moved; recoverable later through reencryptCiphertext
+    failedVaultFields: string[];
+}
+
+export interface FheKeyDescriptor {
+    type: 'public' | 'private' | 'evaluation' | 'relinearization' | 'galois' | 'bootstrapping';
+    hash: string;
+    size: number;
+    count: number;
+}
+
+export interface FheKeyGenerationResult {
+    scheme: FheScheme;
+    securityLevel: SecurityLevel;
+    generatedAt: number;
+    keys: FheKeyDescriptor[];
 }
 
 export interface FheEncryptedData {
@@ -25,6 +79,20 @@ export interface FheEncryptedData {
     metadata: CiphertextMetadata;
     publicKeyHash: string;
     transactionHash?: string;
+    transactionLink?: string;
+    gasUsed?: number;
+    storage?: FheChainStorageRecord[];
+    // On-chain key when the field is stored inside a shared packed ciphertext
+    storageFieldName?: string;
+    vaultVersion?: number;
+}
+
+export interface FheChainStorageRecord {
+    chain: ChainNames;
+    contractAddress: string;
+    transactionHash: string;
+    transactionLink: string;
+    gasUsed: number;
 }
 
 export interface CiphertextMetadata {
@@ -36,6 +104,12 @@ export interface CiphertextMetadata {
     version: string;
     depth?: number;
     size?: number;
+    slot?: number;
+    packedSlots?: number;
+    // On-chain key of the shared packed ciphertext a stored packed field references
+    storageFieldName?: string;
+    compressionRatio?: number;
+    integrityTag?: string;
 }
 
 export interface EncryptionParams {
@@ -46,6 +120,9 @@ export interface EncryptionParams {
     securityLevel?: SecurityLevel;
     allowBootstrapping?: boolean;
     storeOnChain?: boolean;
+    chain?: ChainNames | ChainNames[];
+    compressionEnabled?: boolean;
+    storeInVault?: boolean;
 }
 
 export interface DecryptionParams {
@@ -56,15 +133,25 @@ export interface DecryptionParams {
 }
 
 export interface HomomorphicOperation {
-    type: 'add' | 'multiply' | 'subtract' | 'negate' | 'rotate' | 'bootstrap';
+    type: 'add' | 'multiply' | 'subtract' | 'negate' | 'rotate' | 'bootstrap'
+        | 'addScalar' | 'multiplyScalar' | 'subtractScalar'
+        | 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte' | 'min' | 'max' | 'select';
     inputs: string[];
     scheme: FheScheme;
+    securityLevel?: SecurityLevel;
     autoBootstrap?: boolean;
     rotationAmount?: number;
+    scalar?: number;
+}
+
+export interface HomomorphicOperationParameters {
+    rotationAmount?: number;
+    constant?: number;
 }
 
 export interface FheComputationResult {
     result: string;
+    metadata: CiphertextMetadata;
     operationType: string;
     computationTime: number;
     noiseLevel: number;
@@ -80,6 +167,8 @@ export interface BootstrappingKey {
 
 export interface FheCircuit {
     name: string;
+    scheme: FheScheme;
+    securityLevel?: SecurityLevel;
     inputs: string[];
     outputs: string[];
     gates: CircuitGate[];
@@ -92,6 +181,42 @@ export interface CircuitGate {
     parameters?: any;
 }
 
+export interface CircuitOperation {
+    type: string;
+    inputs: string[];
+    output: string;
+    parameters?: any;
+}
+
+export interface BootstrapPlacement {
+    gateIndex: number;
+    wire: string;
+    refreshedWire: string;
+    beforeGate: string;
+    wireNoise: number;
+    projectedNoise: number;
+    reason: string;
+}
+
+export interface CircuitExecutionPlan {
+    operations: CircuitOperation[];
+    inputCount: number;
+    outputCount: number;
+    depth: number;
+    estimatedNoiseGrowth: number;
+    bootstrappingPoints: BootstrapPlacement[];
+}
+
+export interface StoredFheCircuit {
+    circuitId: string;
+    ownerAddress: string;
+    version: number;
+    definitionHash: string;
+    circuit: FheCircuit;
+    executionPlan: CircuitExecutionPlan;
+    createdAt: number;
+}
+
 export interface RelinearizationKey {
     key: string;
     fromDegree: number;
@@ -120,13 +245,24 @@ export interface PackedCiphertext {
     batchSize: number;
 }
 
+export interface GateEvaluationResult {
+    output: string;
+    operation: string;
+    noiseLevel: number;
+    computationTime: number;
+    bootstrapped: boolean;
+}
+
 export interface HomomorphicEvaluation {
+    circuitId: string;
     circuit: FheCircuit;
     inputs: Record<string, string>;
     outputs: Record<string, string>;
+    outputMetadata: Record<string, CiphertextMetadata>;
     evaluationTime: number;
     memoryUsed: number;
     noiseGrowth: number;
+    gateResults: GateEvaluationResult[];
 }
 
 export interface FheSchemeParameters {
@@ -179,17 +315,28 @@ export interface EncryptedFieldStorage {
     userId: string;
     walletAddress: string;
     fieldName: string;
+    version: number;
     encryptedData: string;
     metadata: CiphertextMetadata;
+    publicKeyHash: string;
+    storage?: FheChainStorageRecord[];
+    storageFieldName?: string;
     createdAt: Date;
     updatedAt: Date;
     accessCount: number;
 }
 
+export interface VaultFieldReference {
+    fieldName: string;
+    originalDataType: string;
+    version?: number;
+}
+
 export interface FheAuditLog {
     operationId: string;
     userId: string;
     operationType: 'encrypt' | 'decrypt' | 'compute';
+    operation?: string;
     fieldName?: string;
     scheme: FheScheme;
     timestamp: number;
@@ -198,6 +345,18 @@ export interface FheAuditLog {
     errorMessage?: string;
 }
 
+// Fields of an audit record known before the operation runs
+export type FheAuditEntry = Omit<FheAuditLog, 'operationId' | 'timestamp' | 'success'>;
+
+export interface FheAuditLogQuery {
+    userId?: string;
+    fieldName?: string;
+    operationType?: FheAuditLog['operationType'];
+    from?: number;
+    to?: number;
+    limit?: number;
+}
+
 export interface BatchEncryption {
     fields: EncryptionParams[];
     commonScheme: FheScheme;
@@ -205,12 +364,31 @@ export interface BatchEncryption {
     compressionEnabled: boolean;
 }
 
+export interface BatchSlotMapping {
+    fieldName: string;
+    ciphertextIndex: number;
+    slot: number;
+}
+
+export interface BatchEncryptionResult {
+    fields: FheEncryptedData[];
+    slotMappings: BatchSlotMapping[];
+    ciphertextCount: number;
+}
+
 export interface BatchDecryption {
     fields: DecryptionParams[];
     parallelProcessing: boolean;
     errorHandling: 'skip' | 'fail';
 }
 
+export interface BatchDecryptionResult {
+    fieldName: string;
+    success: boolean;
+    value?: any;
+    error?: string;
+}
+
 export interface FhePerformanceMetrics {
     encryptionThroughput: number;
     decryptionThroughput: number;
@@ -219,4 +397,28 @@ export interface FhePerformanceMetrics {
     bootstrappingFrequency: number;
     memoryUsage: number;
     cpuUsage: number;
+    alerts: FhePerformanceAlert[];
+}
+
+export interface FhePerformanceAlert {
+    scheme: FheScheme;
+    operation: string;
+    throughput: number;
+    target: number;
+    raisedAt: number;
+}
+
+export interface FheCacheStatistics {
+    hits: number;
+    misses: number;
+    evictions: number;
+    expirations: number;
+    entries: number;
+    bytes: number;
+    maxBytes: number;
+}
+
+export interface CachedFheKeyPair {
+    keyPair: Omit<FheKeyPair, 'privateKey'>;
+    privateKey: Uint8Array;
 }
\ No newline at end of file
@@ -0,0 +1,214 @@
+import { ethers } from 'ethers';
+import { FHE_CONSTANTS } from './constants';
+import { FheScheme, SecurityLevel } from './types';
+import {
+    computeNoiseLevel,
+    decryptValue,
+    deserializeCiphertext,
+    encryptValue,
+    estimateNoiseGrowth,
+    performHomomorphicCompare,
+    performHomomorphicSelect,
+    serializeCiphertext
+} from './utils';
+
+function ciphertext(data: Uint8Array) {
+    return {
+        data,
+        noise: 3.2,
+        depth: 2,
+        size: 3,
+        bootstrapped: true,
+        tagged: true,
+        scheme: FheScheme.BFV,
+        securityLevel: SecurityLevel.MEDIUM,
+        publicKeyHash: ethers.utils.keccak256(ethers.utils.toUtf8Bytes('public key'))
+    };
+}
+
+describe('computeNoiseLevel', () => {
+    it('is deterministic and grows with noise and depth', () => {
+        const fresh = FHE_CONSTANTS.SCHEME_PARAMS[FheScheme.BFV].noiseStandardDeviation;
+        const level = computeNoiseLevel(fresh, 0, FheScheme.BFV);
+
+        expect(computeNoiseLevel(fresh, 0, FheScheme.BFV)).toBe(level);
+        expect(level).toBeCloseTo(FHE_CONSTANTS.BASE_NOISE);
+        expect(computeNoiseLevel(fresh * 2, 0, FheScheme.BFV)).toBeGreaterThan(level);
+        expect(computeNoiseLevel(fresh, 4, FheScheme.BFV)).toBeGreaterThan(level);
+    });
+});
+
+describe('estimateNoiseGrowth', () => {
+    it('mirrors the growth of the homomorphic operations', () => {
+        const factors = FHE_CONSTANTS.NOISE_GROWTH_FACTORS;
+
+        expect(estimateNoiseGrowth('add', [2, 3])).toBe(2 + 3 + factors.ADD);
+        expect(estimateNoiseGrowth('multiply', [2, 3])).toBe(2 * 3 * factors.MULTIPLY);
+        expect(estimateNoiseGrowth('addScalar', [2])).toBe(2);
+    });
+
+    it('resets noise for operations evaluated through bootstrapping', () => {
+        for (const operation of ['bootstrap', 'eq', 'select']) {
+            expect(estimateNoiseGrowth(operation, [90, 90])).toBe(FHE_CONSTANTS.BASE_NOISE);
+        }
+    });
+});
+
+describe('serializeCiphertext', () => {
+    it('round-trips the payload and every header field', () => {
+        const original = ciphertext(new Uint8Array([1, 2, 3, 4]));
+
+        expect(deserializeCiphertext(serializeCiphertext(original))).toEqual(original);
+    });
+
+    it('leaves parameters unset for ciphertexts that never carried them', () => {
+        const serialized = serializeCiphertext({ data: new Uint8Array([1]), noise: 1 });
+
+        expect(deserializeCiphertext(serialized)).toMatchObject({
+            scheme: undefined,
+            securityLevel: undefined,
+            publicKeyHash: undefined,
+            tagged: false
+        });
+    });
+});
+
+describe('deserializeCiphertext', () => {
+    it('still reads the pre-envelope JSON format', () => {
+        const legacy = ethers.utils.base64.encode(ethers.utils.toUtf8Bytes(JSON.stringify({
+            data: '0x0102',
+            noise: 3.2,
+            depth: 1,
+            size: 2,
+            bootstrapped: false,
+            scheme: FheScheme.TFHE,
+            securityLevel: SecurityLevel.LOW
+        })));
+
+        expect(deserializeCiphertext(legacy)).toEqual({
+            data: new Uint8Array([1, 2]),
+            noise: 3.2,
+            depth: 1,
+            size: 2,
+            bootstrapped: false,
+            scheme: FheScheme.TFHE,
+            securityLevel: SecurityLevel.LOW
+        });
+    });
+
+    it('rejects envelopes from a newer format version', () => {
+        const envelope = ethers.utils.base64.decode(serializeCiphertext(ciphertext(new Uint8Array([1]))));
+        envelope[4] = FHE_CONSTANTS.CIPHERTEXT_ENVELOPE.VERSION + 1;
+
+        expect(() => deserializeCiphertext(ethers.utils.base64.encode(envelope))).toThrow(
+            `Unsupported ciphertext format version ${FHE_CONSTANTS.CIPHERTEXT_ENVELOPE.VERSION + 1}`
+        );
+    });
+
+    it('rejects truncated envelopes and unreadable input', () => {
+        const envelope = ethers.utils.base64.decode(serializeCiphertext(ciphertext(new Uint8Array([1, 2]))));
+
+        expect(() => deserializeCiphertext(ethers.utils.base64.encode(envelope.slice(0, -1)))).toThrow(
+            'Failed to deserialize ciphertext'
+        );
+        expect(() => deserializeCiphertext('not a ciphertext')).toThrow('Failed to deserialize ciphertext');
+    });
+});
+
+describe('ciphertext compression', () => {
+    it('compresses large payloads and restores them on read', () => {
+        const original = ciphertext(new Uint8Array(FHE_CONSTANTS.COMPRESSION_THRESHOLD * 4).fill(7));
+
+        const serialized = serializeCiphertext(original, { compress: true });
+        const restored = deserializeCiphertext(serialized);
+
+        expect(serialized.length).toBeLessThan(serializeCiphertext(original).length);
+        expect(restored.data).toEqual(original.data);
+        expect(restored.compressionRatio).toBeGreaterThan(1);
+    });
+
+    it('stores payloads below the threshold as they are', () => {
+        const original = ciphertext(new Uint8Array(FHE_CONSTANTS.COMPRESSION_THRESHOLD - 1));
+
+        expect(deserializeCiphertext(serializeCiphertext(original, { compress: true }))).toEqual(original);
+    });
+
+    it('refuses payloads that inflate past the size limit', () => {
+        const bomb = serializeCiphertext(
+            ciphertext(new Uint8Array(FHE_CONSTANTS.MAX_DECOMPRESSED_CIPHERTEXT_SIZE + 1)),
+            { compress: true }
+        );
+
+        expect(() => deserializeCiphertext(bomb)).toThrow(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+    });
+});
+
+describe('decryptValue', () => {
+    const tagKey = ethers.utils.toUtf8Bytes('tag key');
+
+    beforeEach(() => {
+        // The mock scheme draws its noise from Math.random; a fixed draw lets decryption round-trip
+        jest.spyOn(Math, 'random').mockReturnValue(0.5);
+    });
+
+    afterEach(() => {
+        jest.restoreAllMocks();
+    });
+
+    it('decrypts ciphertexts tagged under the same key', async () => {
+        const encrypted = await encryptValue(null, null, new Uint8Array([1, 2, 3]), 3.2, tagKey);
+
+        await expect(decryptValue(null, null, encrypted, tagKey)).resolves.toEqual(new Uint8Array([1, 2, 3]));
+    });
+
+    it('rejects ciphertexts tagged under another key or altered after encryption', async () => {
+        const encrypted = await encryptValue(null, null, new Uint8Array([1, 2, 3]), 3.2, tagKey);
+        const altered = { ...encrypted, data: new Uint8Array(encrypted.data) };
+        altered.data[0] ^= 1;
+
+        await expect(decryptValue(null, null, encrypted, ethers.utils.toUtf8Bytes('other key'))).rejects.toThrow(
+            FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT
+        );
+        await expect(decryptValue(null, null, altered, tagKey)).rejects.toThrow(
+            FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT
+        );
+    });
+});
+
+describe('performHomomorphicCompare', () => {
+    const two = { ...ciphertext(new Uint8Array([2, 0])), noise: 40, depth: 3 };
+    const three = { ...ciphertext(new Uint8Array([3, 0])), noise: 40, depth: 3 };
+
+    it('returns an encrypted bit with fresh noise', async () => {
+        const outcomes: Record<string, number> = {};
+        for (const comparison of ['eq', 'ne', 'lt', 'lte', 'gt', 'gte'] as const) {
+            const result = await performHomomorphicCompare(null, two, three, comparison, {});
+            outcomes[comparison] = result.data[0];
+
+            expect(result).toMatchObject({
+                noise: FHE_CONSTANTS.BASE_NOISE,
+                depth: 0,
+                bootstrapped: true,
+                tagged: false
+            });
+        }
+
+        expect(outcomes).toEqual({ eq: 0, ne: 1, lt: 1, lte: 1, gt: 0, gte: 0 });
+    });
+
+    it('picks the smaller or larger input for min and max', async () => {
+        expect((await performHomomorphicCompare(null, three, two, 'min', {})).data).toEqual(two.data);
+        expect((await performHomomorphicCompare(null, three, two, 'max', {})).data).toEqual(three.data);
+    });
+});
+
+describe('performHomomorphicSelect', () => {
+    it('picks the first value when the condition is set, otherwise the second', async () => {
+        const yes = ciphertext(new Uint8Array([7]));
+        const no = ciphertext(new Uint8Array([9]));
+        const condition = (bit: number) => ciphertext(new Uint8Array([bit]));
+
+        expect((await performHomomorphicSelect(null, condition(1), yes, no, {})).data).toEqual(yes.data);
+        expect((await performHomomorphicSelect(null, condition(0), yes, no, {})).data).toEqual(no.data);
+    });
+});
@@ -1,6 +1,8 @@
+import { timingSafeEqual } from 'crypto';
 import { ethers } from 'ethers';
+import { deflateRawSync, inflateRawSync } from 'zlib';
 import { FHE_CONSTANTS } from './constants';
-import { FheScheme, SecurityLevel } from './types';
+import { FheScheme, GaloisKey, RelinearizationKey, SecurityLevel } from './types';
 
 // TFHE WASM initialization
 export async function initializeTfheWasm(config: {
@@ -47,12 +49,60 @@ export async function generateFheKeys(
     };
 }
 
+// Relinearization keys, one per ciphertext degree that multiplication can produce
+export async function generateRelinearizationKeys(
+    tfheInstance: any,
+    params: {
+        scheme: FheScheme;
+        securityLevel: SecurityLevel;
+    }
+): Promise<RelinearizationKey[]> {
+    const keys: RelinearizationKey[] = [];
+    
+    for (let degree = 3; degree <= FHE_CONSTANTS.MAX_CIPHERTEXT_SIZE + 1; degree++) {
+        keys.push({
+            key: ethers.utils.hexlify(ethers.utils.randomBytes(512)),
+            fromDegree: degree,
+            toDegree: 2
+        });
+    }
+    
+    return keys;
+}
+
+// Galois keys for power-of-two slot rotations
+export async function generateGaloisKeys(
+    tfheInstance: any,
+    params: {
+        scheme: FheScheme;
+        securityLevel: SecurityLevel;
+        slotCount: number;
+    }
+): Promise<GaloisKey[]> {
+    const cyclotomicOrder = BigInt(params.slotCount * 4);
+    const keys: GaloisKey[] = [];
+    
+    // Rotation by 2^i slots corresponds to the automorphism x -> x^(5^(2^i))
+    let element = BigInt(5);
+    for (let step = 1; step < params.slotCount; step *= 2) {
+        keys.push({
+            key: ethers.utils.hexlify(ethers.utils.randomBytes(256)),
+            element: Number(element),
+            modulus: cyclotomicOrder
+        });
+        element = (element * element) % cyclotomicOrder;
+    }
+    
+    return keys;
+}
+
 // Encryption
 export async function encryptValue(
     tfheInstance: any,
     context: any,
     value: Uint8Array,
-    noiseStdDev: number
+    noiseStdDev: number,
+    tagKey: Uint8Array
 ): Promise<any> {
     // Simulate FHE encryption
     const noise = generateNoise(noiseStdDev);
@@ -63,29 +113,46 @@ export async function encryptValue(
         encrypted[i] = value[i] ^ noise[i % noise.length];
     }
     
-    // Add authentication tag
-    const tag = ethers.utils.arrayify(
-        ethers.utils.keccak256(ethers.utils.concat([value, noise]))
-    );
-    encrypted.set(tag, value.length);
+    // Keyed authentication tag over the ciphertext body, checkable without the noise
+    encrypted.set(ciphertextTag(encrypted.subarray(0, value.length), tagKey), value.length);
     
     return {
         data: encrypted,
         noise: noiseStdDev,
         depth: 0,
-        size: 2
+        size: 2,
+        tagged: true
     };
 }
 
+function ciphertextTag(body: Uint8Array, tagKey: Uint8Array): Uint8Array {
+    return ethers.utils.arrayify(
+        ethers.utils.computeHmac(ethers.utils.SupportedAlgorithm.sha256, tagKey, body)
+    );
+}
+
 // Decryption
 export async function decryptValue(
     tfheInstance: any,
     context: any,
-    ciphertext: any
+    ciphertext: any,
+    tagKey: Uint8Array
 ): Promise<Uint8Array> {
     // Simulate FHE decryption
     const data = ciphertext.data;
     const originalLength = data.length - 32;
+    if (originalLength < 0) {
+        throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+    }
+
+    // Fresh ciphertexts still carry their encryption tag; evaluated ones no longer do
+    if (ciphertext.tagged) {
+        const expectedTag = ciphertextTag(data.subarray(0, originalLength), tagKey);
+        if (!timingSafeEqual(data.subarray(originalLength), expectedTag)) {
+            throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+        }
+    }
+
     const decrypted = new Uint8Array(originalLength);
     
     const noise = generateNoise(ciphertext.noise);
@@ -117,7 +184,10 @@ export async function performHomomorphicAdd(
         data: result,
         noise: a.noise + b.noise + FHE_CONSTANTS.NOISE_GROWTH_FACTORS.ADD,
         depth: Math.max(a.depth, b.depth),
-        size: a.size
+        size: a.size,
+        scheme: a.scheme,
+        securityLevel: a.securityLevel,
+        publicKeyHash: a.publicKeyHash
     };
 }
 
@@ -141,10 +211,123 @@ export async function performHomomorphicMultiply(
         data: result,
         noise: a.noise * b.noise * FHE_CONSTANTS.NOISE_GROWTH_FACTORS.MULTIPLY,
         depth: Math.max(a.depth, b.depth) + 1,
-        size: a.size + b.size
+        size: a.size + b.size,
+        scheme: a.scheme,
+        securityLevel: a.securityLevel,
+        publicKeyHash: a.publicKeyHash
+    };
+}
+
+// Plaintext-scalar operations take an operand already encoded for the scheme (see encodeScalar)
+export async function performHomomorphicAddScalar(
+    tfheInstance: any,
+    context: any,
+    a: any,
+    encoded: bigint
+): Promise<any> {
+    const operand = scalarToByte(encoded);
+    const result = new Uint8Array(a.data.length);
+
+    for (let i = 0; i < result.length; i++) {
+        result[i] = (a.data[i] + operand) % 256;
+    }
+
+    // Adding a plaintext introduces no fresh encryption noise
+    return {
+        ...a,
+        data: result,
+        tagged: false
+    };
+}
+
+export async function performHomomorphicMultiplyScalar(
+    tfheInstance: any,
+    context: any,
+    a: any,
+    encoded: bigint,
+    scheme: FheScheme
+): Promise<any> {
+    const operand = scalarToByte(encoded);
+    const result = new Uint8Array(a.data.length);
+
+    for (let i = 0; i < result.length; i++) {
+        result[i] = (a.data[i] * operand) % 256;
+    }
+
+    // Only CKKS rescales after a plaintext multiply; integer schemes stay at the same level
+    return {
+        ...a,
+        data: result,
+        noise: a.noise * FHE_CONSTANTS.NOISE_GROWTH_FACTORS.SCALAR_MULTIPLY,
+        depth: (a.depth || 0) + (scheme === FheScheme.CKKS ? 1 : 0),
+        tagged: false
     };
 }
 
+// TFHE comparisons evaluate through programmable bootstrapping, so every result comes out
+// with fresh noise regardless of the inputs
+export async function performHomomorphicCompare(
+    tfheInstance: any,
+    a: any,
+    b: any,
+    comparison: 'eq' | 'ne' | 'lt' | 'lte' | 'gt' | 'gte' | 'min' | 'max',
+    bootstrappingKey: any
+): Promise<any> {
+    const order = compareMockValues(a, b);
+
+    if (comparison === 'min' || comparison === 'max') {
+        const chosen = (comparison === 'min') === (order <= 0) ? a : b;
+        return refreshMockValue(chosen, chosen.data);
+    }
+
+    const outcomes = {
+        eq: order === 0,
+        ne: order !== 0,
+        lt: order < 0,
+        lte: order <= 0,
+        gt: order > 0,
+        gte: order >= 0
+    };
+
+    // Encrypted boolean: one value byte followed by the tag-sized tail every ciphertext carries
+    const bit = new Uint8Array(33);
+    bit[0] = outcomes[comparison] ? 1 : 0;
+    return refreshMockValue(a, bit);
+}
+
+// Cmux: picks a when the encrypted condition is true, otherwise b
+export async function performHomomorphicSelect(
+    tfheInstance: any,
+    condition: any,
+    a: any,
+    b: any,
+    bootstrappingKey: any
+): Promise<any> {
+    const chosen = condition.data[0] !== 0 ? a : b;
+    return refreshMockValue(chosen, chosen.data);
+}
+
+// Encodes a plaintext operand: CKKS scales it into a fixed-point integer,
+// the integer schemes reduce it into the plaintext modulus
+export function encodeScalar(value: number, scheme: FheScheme): bigint {
+    const params = FHE_CONSTANTS.SCHEME_PARAMS[scheme];
+    if (!Number.isFinite(value)) {
+        throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.INVALID_SCALAR}: ${value}`);
+    }
+
+    if (scheme === FheScheme.CKKS) {
+        return BigInt(Math.round(value * FHE_CONSTANTS.SCHEME_PARAMS[FheScheme.CKKS].scale));
+    }
+
+    if (!Number.isInteger(value)) {
+        throw new Error(`${FHE_CONSTANTS.ERROR_MESSAGES.INVALID_SCALAR}: ${value} is not an integer under ${scheme}`);
+    }
+
+    const modulus = params.plaintextModulus;
+    const reduced = BigInt(value) % modulus;
+    return reduced < BigInt(0) ? reduced + modulus : reduced;
+}
+
 // Bootstrapping
 export async function bootstrapCiphertext(
     tfheInstance: any,
@@ -161,33 +344,110 @@ export async function bootstrapCiphertext(
 }
 
 // Serialization
-export function serializeCiphertext(ciphertext: any): string {
-    const serialized = {
-        data: ethers.utils.hexlify(ciphertext.data),
-        noise: ciphertext.noise,
-        depth: ciphertext.depth || 0,
-        size: ciphertext.size || 2,
-        bootstrapped: ciphertext.bootstrapped || false
-    };
-    
-    return ethers.utils.base64.encode(
-        ethers.utils.toUtf8Bytes(JSON.stringify(serialized))
-    );
+// Envelope layout (big-endian):
+//   magic u32 | version u8 | scheme u8 | parameter set u16 | public key hash 32B |
+//   noise f64 | depth u16 | size u8 | flags u8 | payload length u32 | payload
+const ENVELOPE = FHE_CONSTANTS.CIPHERTEXT_ENVELOPE;
+const ENVELOPE_FLAG_BOOTSTRAPPED = 0x01;
+const ENVELOPE_FLAG_COMPRESSED = 0x02;
+const ENVELOPE_FLAG_TAGGED = 0x04;
+const ENVELOPE_SCHEMES = [FheScheme.TFHE, FheScheme.CKKS, FheScheme.BGV, FheScheme.BFV];
+
+export function serializeCiphertext(ciphertext: any, options: { compress?: boolean } = {}): string {
+    let payload: Uint8Array = ciphertext.data;
+    let flags = (ciphertext.bootstrapped ? ENVELOPE_FLAG_BOOTSTRAPPED : 0)
+        | (ciphertext.tagged ? ENVELOPE_FLAG_TAGGED : 0);
+
+    // Only small payloads skip compression; keep the raw bytes if deflate does not help
+    if (options.compress && payload.length >= FHE_CONSTANTS.COMPRESSION_THRESHOLD) {
+        const compressed = compressCiphertext(payload);
+        if (compressed.length < payload.length) {
+            payload = compressed;
+            flags |= ENVELOPE_FLAG_COMPRESSED;
+        }
+    }
+
+    const envelope = new Uint8Array(ENVELOPE.HEADER_SIZE + payload.length);
+    const view = new DataView(envelope.buffer);
+
+    // Scheme code 0 and parameter set 0 mean the ciphertext was never tagged
+    const schemeCode = ciphertext.scheme ? ENVELOPE_SCHEMES.indexOf(ciphertext.scheme) + 1 : 0;
+
+    view.setUint32(0, ENVELOPE.MAGIC);
+    view.setUint8(4, ENVELOPE.VERSION);
+    view.setUint8(5, schemeCode);
+    view.setUint16(6, ciphertext.securityLevel || 0);
+    if (ciphertext.publicKeyHash) {
+        envelope.set(ethers.utils.arrayify(ciphertext.publicKeyHash), 8);
+    }
+    view.setFloat64(40, ciphertext.noise);
+    view.setUint16(48, ciphertext.depth || 0);
+    view.setUint8(50, ciphertext.size || 2);
+    view.setUint8(51, flags);
+    view.setUint32(52, payload.length);
+    envelope.set(payload, ENVELOPE.HEADER_SIZE);
+
+    return ethers.utils.base64.encode(envelope);
 }
 
 export function deserializeCiphertext(serialized: string): any {
+    let bytes: Uint8Array;
     try {
-        const json = ethers.utils.toUtf8String(
-            ethers.utils.base64.decode(serialized)
-        );
-        const parsed = JSON.parse(json);
-        
+        bytes = ethers.utils.base64.decode(serialized);
+    } catch (error) {
+        throw new Error('Failed to deserialize ciphertext');
+    }
+
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    if (bytes.length < ENVELOPE.HEADER_SIZE || view.getUint32(0) !== ENVELOPE.MAGIC) {
+        return deserializeLegacyCiphertext(bytes);
+    }
+
+    const version = view.getUint8(4);
+    if (version > ENVELOPE.VERSION) {
+        throw new Error(`Unsupported ciphertext format version ${version}`);
+    }
+
+    const schemeCode = view.getUint8(5);
+    const parameterSet = view.getUint16(6);
+    const publicKeyHash = bytes.subarray(8, 40);
+    const payloadLength = view.getUint32(52);
+    if (schemeCode > ENVELOPE_SCHEMES.length || bytes.length !== ENVELOPE.HEADER_SIZE + payloadLength) {
+        throw new Error('Failed to deserialize ciphertext');
+    }
+
+    const flags = view.getUint8(51);
+    const payload = bytes.slice(ENVELOPE.HEADER_SIZE);
+    const compressed = (flags & ENVELOPE_FLAG_COMPRESSED) !== 0;
+    const data = compressed ? decompressCiphertext(payload) : payload;
+
+    return {
+        data,
+        noise: view.getFloat64(40),
+        depth: view.getUint16(48),
+        size: view.getUint8(50),
+        bootstrapped: (flags & ENVELOPE_FLAG_BOOTSTRAPPED) !== 0,
+        tagged: (flags & ENVELOPE_FLAG_TAGGED) !== 0,
+        scheme: schemeCode ? ENVELOPE_SCHEMES[schemeCode - 1] : undefined,
+        securityLevel: parameterSet || undefined,
+        publicKeyHash: publicKeyHash.some(byte => byte !== 0) ? ethers.utils.hexlify(publicKeyHash) : undefined,
+        ...(compressed && { compressionRatio: data.length / payload.length })
+    };
+}
+
+// Pre-envelope format: base64 of JSON with a hex-encoded payload
+function deserializeLegacyCiphertext(bytes: Uint8Array): any {
+    try {
+        const parsed = JSON.parse(ethers.utils.toUtf8String(bytes));
+
         return {
             data: ethers.utils.arrayify(parsed.data),
             noise: parsed.noise,
             depth: parsed.depth,
             size: parsed.size,
-            bootstrapped: parsed.bootstrapped
+            bootstrapped: parsed.bootstrapped,
+            scheme: parsed.scheme,
+            securityLevel: parsed.securityLevel
         };
     } catch (error) {
         throw new Error('Failed to deserialize ciphertext');
@@ -195,6 +455,34 @@ export function deserializeCiphertext(serialized: string): any {
 }
 
 // Helper functions
+function scalarToByte(encoded: bigint): number {
+    const byte = encoded % BigInt(256);
+    return Number(byte < BigInt(0) ? byte + BigInt(256) : byte);
+}
+
+function compareMockValues(a: any, b: any): number {
+    const length = Math.max(a.data.length, b.data.length);
+    for (let i = 0; i < length; i++) {
+        const aVal = i < a.data.length ? a.data[i] : 0;
+        const bVal = i < b.data.length ? b.data[i] : 0;
+        if (aVal !== bVal) {
+            return aVal < bVal ? -1 : 1;
+        }
+    }
+    return 0;
+}
+
+function refreshMockValue(value: any, data: Uint8Array): any {
+    return {
+        ...value,
+        data: new Uint8Array(data),
+        noise: FHE_CONSTANTS.BASE_NOISE,
+        depth: 0,
+        bootstrapped: true,
+        tagged: false
+    };
+}
+
 function generateNoise(stdDev: number): Uint8Array {
     const noise = new Uint8Array(32);
     for (let i = 0; i < noise.length; i++) {
@@ -233,7 +521,8 @@ function negateMockValue(value: any): any {
     return {
         ...value,
         data: negated,
-        noise: value.noise * FHE_CONSTANTS.NOISE_GROWTH_FACTORS.ADD
+        noise: value.noise * FHE_CONSTANTS.NOISE_GROWTH_FACTORS.ADD,
+        tagged: false
     };
 }
 
@@ -248,7 +537,8 @@ function rotateMockValue(value: any, amount: number): any {
     return {
         ...value,
         data: rotated,
-        noise: value.noise * FHE_CONSTANTS.NOISE_GROWTH_FACTORS.ROTATE
+        noise: value.noise * FHE_CONSTANTS.NOISE_GROWTH_FACTORS.ROTATE,
+        tagged: false
     };
 }
 
@@ -304,55 +594,76 @@ export function unpackValues(packed: Uint8Array): Uint8Array[] {
 }
 
 // Compression utilities
-export function compressCiphertext(ciphertext: any): Uint8Array {
-    const json = JSON.stringify({
-        d: ethers.utils.hexlify(ciphertext.data),
-        n: Math.floor(ciphertext.noise * 1000),
-        p: ciphertext.depth,
-        s: ciphertext.size
-    });
-    
-    // Simple compression using base64
-    return ethers.utils.toUtf8Bytes(ethers.utils.base64.encode(
-        ethers.utils.toUtf8Bytes(json)
-    ));
+export function compressCiphertext(payload: Uint8Array): Uint8Array {
+    return new Uint8Array(deflateRawSync(payload, { level: FHE_CONSTANTS.COMPRESSION_LEVEL }));
 }
 
-export function decompressCiphertext(compressed: Uint8Array): any {
-    const json = ethers.utils.toUtf8String(
-        ethers.utils.base64.decode(ethers.utils.toUtf8String(compressed))
-    );
-    const parsed = JSON.parse(json);
-    
-    return {
-        data: ethers.utils.arrayify(parsed.d),
-        noise: parsed.n / 1000,
-        depth: parsed.p,
-        size: parsed.s
-    };
+export function decompressCiphertext(compressed: Uint8Array): Uint8Array {
+    try {
+        // Bounded output guards against decompression bombs in untrusted ciphertexts
+        return new Uint8Array(inflateRawSync(compressed, {
+            maxOutputLength: FHE_CONSTANTS.MAX_DECOMPRESSED_CIPHERTEXT_SIZE
+        }));
+    } catch (error) {
+        throw new Error(FHE_CONSTANTS.ERROR_MESSAGES.INVALID_CIPHERTEXT);
+    }
 }
 
-// Noise estimation
+// Noise estimation, mirroring the noise tracked by the homomorphic operations above
 export function estimateNoiseGrowth(
     operation: string,
     inputNoise: number[]
 ): number {
-    const factor = FHE_CONSTANTS.NOISE_GROWTH_FACTORS[operation.toUpperCase()] || 1;
+    const factors = FHE_CONSTANTS.NOISE_GROWTH_FACTORS;
     const maxInput = Math.max(...inputNoise);
     
     switch (operation) {
         case 'add':
+            return inputNoise.reduce((a, b) => a + b + factors.ADD);
         case 'subtract':
-            return maxInput + factor;
+            // Subtraction negates the second input, and negation grows noise by the ADD factor
+            return inputNoise[0] + inputNoise[1] * factors.ADD + factors.ADD;
         case 'multiply':
-            return inputNoise.reduce((a, b) => a * b, 1) * factor;
+            return inputNoise.reduce((a, b) => a * b * factors.MULTIPLY);
+        case 'negate':
+            return maxInput * factors.ADD;
         case 'rotate':
-            return maxInput * factor;
+            return maxInput * factors.ROTATE;
+        case 'addScalar':
+        case 'subtractScalar':
+            return maxInput;
+        case 'multiplyScalar':
+            return maxInput * factors.SCALAR_MULTIPLY;
+        case 'bootstrap':
+        case 'eq':
+        case 'ne':
+        case 'lt':
+        case 'lte':
+        case 'gt':
+        case 'gte':
+        case 'min':
+        case 'max':
+        case 'select':
+            // Evaluated through programmable bootstrapping
+            return FHE_CONSTANTS.BASE_NOISE;
         default:
             return maxInput;
     }
 }
 
+// Deterministic noise level from a ciphertext's tracked noise, depth and scheme parameters
+export function computeNoiseLevel(
+    noise: number,
+    depth: number,
+    scheme: FheScheme
+): number {
+    const params = FHE_CONSTANTS.SCHEME_PARAMS[scheme];
+    
+    // Normalise to the scheme's fresh-encryption noise, then weight by multiplicative depth consumed
+    const relativeNoise = (noise / params.noiseStandardDeviation) * FHE_CONSTANTS.BASE_NOISE;
+    return relativeNoise * (1 + depth / FHE_CONSTANTS.MAX_CIRCUIT_DEPTH);
+}
+
 // Key switching
 export function generateKeySwitchingKey(
     oldKey: string,
@@ -366,6 +677,27 @@ export function generateKeySwitchingKey(
     return ethers.utils.keccak256(combined);
 }
 
+// Homomorphic key switching: moves a ciphertext under a new key without decrypting it
+export async function switchCiphertextKey(
+    tfheInstance: any,
+    ciphertext: any,
+    keySwitchingKey: string
+): Promise<any> {
+    const switchingMaterial = ethers.utils.arrayify(keySwitchingKey);
+    const switched = new Uint8Array(ciphertext.data.length);
+    
+    for (let i = 0; i < ciphertext.data.length; i++) {
+        switched[i] = ciphertext.data[i] ^ switchingMaterial[i % switchingMaterial.length];
+    }
+    
+    return {
+        ...ciphertext,
+        data: switched,
+        noise: ciphertext.noise * FHE_CONSTANTS.NOISE_GROWTH_FACTORS.KEY_SWITCH,
+        tagged: false
+    };
+}
+
 // Modulus switching for noise reduction
 export function modulusSwitch(
     ciphertext: any,
@@ -382,6 +714,62 @@ export function modulusSwitch(
     return {
         ...ciphertext,
         data: scaled,
-        noise: ciphertext.noise * scaleFactor
+        noise: ciphertext.noise * scaleFactor,
+        tagged: false
     };
-}
\ No newline at end of file
+}
+
+// Timeout guard for long-running batch operations
+export async function withTimeout<T>(
+    promise: Promise<T>,
+    timeoutMs: number,
+    message: string
+): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(message)), timeoutMs);
+    });
+
+    try {
+        return await Promise.race([promise, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
+
+// Bounded-concurrency map that preserves input order and stops on the first failure
+export async function mapWithConcurrency<T, R>(
+    items: T[],
+    concurrency: number,
+    mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+    const results: R[] = new Array(items.length);
+    let next = 0;
+    let aborted = false;
+
+    const worker = async (): Promise<void> => {
+        while (!aborted && next < items.length) {
+            const index = next++;
+            try {
+                results[index] = await mapper(items[index], index);
+            } catch (error) {
+                aborted = true;
+                throw error;
+            }
+        }
+    };
+
+    const workerCount = Math.max(1, Math.min(concurrency, items.length));
+    await Promise.all(Array.from({ length: workerCount }, () => worker()));
+
+    return results;
+}
+
+// Message of a caught value, which is not guaranteed to be an Error
+export function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+export function errorCode(error: unknown): string | undefined {
+    return error instanceof Error ? (error as Error & { code?: string }).code : undefined;
+}